@@ -1,4 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // tesseract.js spawns worker threads from its own files, and better-sqlite3 loads a
+    // native addon, so they must not be bundled
+    serverComponentsExternalPackages: ['tesseract.js', 'better-sqlite3'],
+  },
+};
 
 export default nextConfig;
@@ -2,147 +2,40 @@
 
 /**
  * This script fixes metadata issues in the file catalog:
- * 1. Reduces metadata size for files exceeding the limit
+ * 1. Resets files that exceeded the metadata size limit so they are processed again
  * 2. Removes temporary files from the catalog (not just filesystem)
  * 3. Cleans up references to missing files
  * 4. Fixes content extraction issues
+ *
+ * The catalog is read and changed through the catalog API, so the app must be running.
  */
 
 const fs = require('fs');
 const path = require('path');
+const { listFiles, updateFile, deleteFile } = require('./lib/catalog-api');
 
 // Paths
 const KNOWLEDGEBASE_DIR = path.join(process.cwd(), 'knowledgebase');
-const FILE_CATALOG_PATH = path.join(process.cwd(), 'file-catalog.json');
-const DATA_CATALOG_PATH = path.join(process.cwd(), 'data', 'file-catalog.json');
-
-// Constants
-const MAX_METADATA_SIZE = 49152; // 48KB
-const MAX_DESCRIPTION_LENGTH = 100;
-const MAX_KEYWORDS = 5;
-const MAX_CONTENT_TAGS = 5;
-
-// Load the file catalog
-function loadFileCatalog() {
-  try {
-    // Try the root directory first
-    if (fs.existsSync(FILE_CATALOG_PATH)) {
-      const data = fs.readFileSync(FILE_CATALOG_PATH, 'utf8');
-      return { path: FILE_CATALOG_PATH, catalog: JSON.parse(data) };
-    }
-    
-    // Try the data directory next
-    if (fs.existsSync(DATA_CATALOG_PATH)) {
-      const data = fs.readFileSync(DATA_CATALOG_PATH, 'utf8');
-      return { path: DATA_CATALOG_PATH, catalog: JSON.parse(data) };
-    }
-  } catch (error) {
-    console.error('Error loading file catalog:', error);
-  }
-  
-  throw new Error('File catalog not found');
-}
 
-// Save the file catalog
-function saveFileCatalog(catalogPath, catalog) {
-  try {
-    // Update the lastUpdated timestamp
-    catalog.lastUpdated = new Date().toISOString();
-    
-    // Ensure the directory exists
-    const dir = path.dirname(catalogPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    
-    // Write the catalog to file
-    fs.writeFileSync(catalogPath, JSON.stringify(catalog, null, 2));
-    console.log(`File catalog saved with ${Object.keys(catalog.files).length} files`);
-    return true;
-  } catch (error) {
-    console.error('Error saving file catalog:', error);
-    return false;
-  }
-}
-
-// Check if a file exists in the knowledgebase
-function fileExists(fileName, relativePath) {
-  const filePath = path.join(KNOWLEDGEBASE_DIR, relativePath, fileName);
-  return fs.existsSync(filePath);
-}
-
-// Calculate the size of metadata for a file
-function calculateMetadataSize(fileMetadata) {
-  return Buffer.byteLength(JSON.stringify(fileMetadata));
-}
-
-// Reduce metadata size for a file
-function reduceMetadataSize(fileMetadata) {
-  const originalSize = calculateMetadataSize(fileMetadata);
-  
-  // Make a copy to avoid modifying the original
-  const reducedMetadata = { ...fileMetadata };
-  
-  // Step 1: Truncate description
-  if (reducedMetadata.description) {
-    reducedMetadata.description = reducedMetadata.description.substring(0, MAX_DESCRIPTION_LENGTH);
-  }
-  
-  // Step 2: Limit keywords
-  if (reducedMetadata.keywords && Array.isArray(reducedMetadata.keywords)) {
-    reducedMetadata.keywords = reducedMetadata.keywords.slice(0, MAX_KEYWORDS);
-  }
-  
-  // Step 3: Limit content tags
-  if (reducedMetadata.contentTags && Array.isArray(reducedMetadata.contentTags)) {
-    reducedMetadata.contentTags = reducedMetadata.contentTags.slice(0, MAX_CONTENT_TAGS);
-  }
-  
-  // Step 4: Remove version history if present
-  if (reducedMetadata.versionHistory) {
-    delete reducedMetadata.versionHistory;
-  }
-  
-  // Step 5: Reduce chunk count for very large files
-  if (reducedMetadata.chunkCount > 20) {
-    reducedMetadata.chunkCount = 20;
-  }
-  
-  // Step 6: Remove any custom fields that might be taking up space
-  const essentialFields = [
-    'id', 'name', 'path', 'size', 'mimeType', 'fileType', 'sourceLocation', 'driveId',
-    'processingStatus', 'processedAt', 'errorMessage', 'chunkCount', 'chunkIds',
-    'contentHash', 'createdAt', 'lastModified', 'author', 'title', 'contentTags',
-    'keywords', 'description', 'version'
-  ];
-  
-  Object.keys(reducedMetadata).forEach(key => {
-    if (!essentialFields.includes(key)) {
-      delete reducedMetadata[key];
-    }
-  });
-  
-  const newSize = calculateMetadataSize(reducedMetadata);
-  console.log(`Reduced metadata size for ${fileMetadata.name} from ${originalSize} to ${newSize} bytes`);
-  
-  return reducedMetadata;
+// Check if a file exists in the knowledgebase (files extracted from an archive are checked through the archive)
+function fileExists(file) {
+  return Boolean(file.parentId) || fs.existsSync(path.join(KNOWLEDGEBASE_DIR, file.name));
 }
 
 // Remove temporary files from the catalog
-function removeTemporaryFilesFromCatalog(catalog) {
+async function removeTemporaryFilesFromCatalog(files) {
   let removedCount = 0;
-  
-  for (const fileId in catalog.files) {
-    const file = catalog.files[fileId];
-    
+
+  for (const file of files) {
     // Check if it's a temporary file
     if (file.name.startsWith('~$')) {
-      console.log(`Removing temporary file from catalog: ${file.path ? file.path + '/' : ''}${file.name}`);
-      delete catalog.files[fileId];
+      console.log(`Removing temporary file from catalog: ${file.name}`);
+      await deleteFile(file.id);
+      file.removed = true;
       removedCount++;
     }
   }
-  
+
   console.log(`Removed ${removedCount} temporary files from catalog`);
   return removedCount;
 }
@@ -150,14 +43,14 @@ function removeTemporaryFilesFromCatalog(catalog) {
 // Remove temporary files from the filesystem
 function removeTemporaryFilesFromFilesystem() {
   let removedCount = 0;
-  
+
   function scanForTempFiles(dir) {
     const items = fs.readdirSync(dir);
-    
+
     for (const item of items) {
       const itemPath = path.join(dir, item);
       const stats = fs.statSync(itemPath);
-      
+
       if (stats.isDirectory()) {
         // Recursively scan subdirectories
         scanForTempFiles(itemPath);
@@ -175,133 +68,68 @@ function removeTemporaryFilesFromFilesystem() {
       }
     }
   }
-  
+
   console.log('Scanning for temporary files in filesystem...');
   scanForTempFiles(KNOWLEDGEBASE_DIR);
   console.log(`Removed ${removedCount} temporary files from filesystem`);
-  
+
   return removedCount;
 }
 
-// Clean up missing files from the catalog
-function cleanupMissingFiles(catalog) {
+// Report missing files; the next knowledge base update removes them from the catalog
+function reportMissingFiles(files) {
   let missingCount = 0;
-  
-  for (const fileId in catalog.files) {
-    const file = catalog.files[fileId];
-    
-    // Check if the file exists
-    if (!fileExists(file.name, file.path || '')) {
-      console.log(`File not found in knowledgebase: ${file.path ? file.path + '/' : ''}${file.name}`);
-      
-      // If it's a temporary file, remove it from the catalog
-      if (file.name.startsWith('~$')) {
-        console.log(`Removing missing temporary file from catalog: ${file.path ? file.path + '/' : ''}${file.name}`);
-        delete catalog.files[fileId];
-        missingCount++;
-      } else {
-        // For non-temporary files, mark as error but keep in catalog
-        file.processingStatus = 'error';
-        file.errorMessage = 'File not found in knowledgebase';
-        missingCount++;
-      }
+
+  for (const file of files) {
+    if (!file.removed && !fileExists(file)) {
+      console.log(`File not found in knowledgebase: ${file.name}`);
+      file.missing = true;
+      missingCount++;
     }
   }
-  
-  console.log(`Processed ${missingCount} missing files`);
+
+  console.log(`Found ${missingCount} missing files, which the next knowledge base update removes from the catalog`);
   return missingCount;
 }
 
-// Fix metadata size issues
-function fixMetadataSizeIssues(catalog) {
+// Reset the files with an error message to pending so the next update processes them again
+async function resetFilesWithError(files, errorMessage, description) {
   let fixedCount = 0;
-  
-  for (const fileId in catalog.files) {
-    const file = catalog.files[fileId];
-    
-    // Check if the file has a metadata size error
-    if (file.processingStatus === 'error' && 
-        file.errorMessage && 
-        file.errorMessage.includes('Exceeded max metadata size')) {
-      
-      console.log(`Fixing metadata size issue for: ${file.path ? file.path + '/' : ''}${file.name}`);
-      
-      // Reduce metadata size
-      const reducedMetadata = reduceMetadataSize(file);
-      
-      // Update the file with reduced metadata
-      Object.assign(file, reducedMetadata);
-      
-      // Reset processing status
-      file.processingStatus = 'pending';
-      file.errorMessage = '';
-      
-      fixedCount++;
-    }
-  }
-  
-  console.log(`Fixed metadata size issues for ${fixedCount} files`);
-  return fixedCount;
-}
 
-// Fix content extraction issues
-function fixContentExtractionIssues(catalog) {
-  let fixedCount = 0;
-  
-  for (const fileId in catalog.files) {
-    const file = catalog.files[fileId];
-    
-    // Check if the file has a content extraction error
-    if (file.processingStatus === 'error' && 
-        file.errorMessage && 
-        file.errorMessage.includes('No content extracted from file')) {
-      
-      // Skip temporary files
-      if (file.name.startsWith('~$')) {
-        continue;
-      }
-      
-      console.log(`Fixing content extraction issue for: ${file.path ? file.path + '/' : ''}${file.name}`);
-      
-      // Reset processing status
-      file.processingStatus = 'pending';
-      file.errorMessage = '';
-      
-      // Set a reasonable chunk count to help with processing
-      if (!file.chunkCount || file.chunkCount === 0) {
-        file.chunkCount = 1;
-      }
-      
+  for (const file of files) {
+    if (!file.removed && !file.missing &&
+        file.processingStatus === 'error' &&
+        file.errorMessage &&
+        file.errorMessage.includes(errorMessage)) {
+
+      console.log(`Fixing ${description} issue for: ${file.name}`);
+      await updateFile(file.id, { processingStatus: 'pending' });
       fixedCount++;
     }
   }
-  
-  console.log(`Fixed content extraction issues for ${fixedCount} files`);
+
+  console.log(`Fixed ${description} issues for ${fixedCount} files`);
   return fixedCount;
 }
 
 // Main function
 async function main() {
   console.log('Starting metadata fix process...');
-  
+
   // Load the file catalog
-  const { path: catalogPath, catalog } = loadFileCatalog();
-  console.log(`Loaded file catalog with ${Object.keys(catalog.files).length} files from ${catalogPath}`);
-  
+  const { total, files } = await listFiles();
+  console.log(`Loaded file catalog with ${total} files`);
+
   // Track statistics
   let errorCount = 0;
   let metadataSizeIssues = 0;
   let contentExtractionIssues = 0;
-  let missingFiles = 0;
-  let tempFilesRemoved = 0;
-  let fixedCount = 0;
-  
+
   // Count files with errors
-  for (const fileId in catalog.files) {
-    const file = catalog.files[fileId];
+  for (const file of files) {
     if (file.processingStatus === 'error') {
       errorCount++;
-      
+
       // Categorize errors
       if (file.errorMessage && file.errorMessage.includes('Exceeded max metadata size')) {
         metadataSizeIssues++;
@@ -310,41 +138,38 @@ async function main() {
       }
     }
   }
-  
+
   console.log(`Found ${errorCount} files with errors:`);
   console.log(`- Metadata size issues: ${metadataSizeIssues}`);
   console.log(`- Content extraction issues: ${contentExtractionIssues}`);
-  
+
   // Remove temporary files from filesystem
-  const removedFromFs = removeTemporaryFilesFromFilesystem();
-  
+  removeTemporaryFilesFromFilesystem();
+
   // Remove temporary files from catalog
-  const removedFromCatalog = removeTemporaryFilesFromCatalog(catalog);
-  tempFilesRemoved = removedFromCatalog;
-  
-  // Clean up missing files
-  missingFiles = cleanupMissingFiles(catalog);
-  
-  // Fix metadata size issues
-  const fixedMetadataSize = fixMetadataSizeIssues(catalog);
-  
+  const tempFilesRemoved = await removeTemporaryFilesFromCatalog(files);
+
+  // Report missing files
+  const missingFiles = reportMissingFiles(files);
+
+  // Fix metadata size issues (the chunk metadata is rebuilt when the file is processed again)
+  const fixedMetadataSize = await resetFilesWithError(files, 'Exceeded max metadata size', 'metadata size');
+
   // Fix content extraction issues
-  const fixedContentExtraction = fixContentExtractionIssues(catalog);
-  
+  const fixedContentExtraction = await resetFilesWithError(files, 'No content extracted from file', 'content extraction');
+
   // Calculate total fixed
-  fixedCount = fixedMetadataSize + fixedContentExtraction;
-  
-  // Save the catalog if files were fixed
+  const fixedCount = fixedMetadataSize + fixedContentExtraction;
+
   if (fixedCount > 0 || tempFilesRemoved > 0) {
     console.log(`Fixed ${fixedCount} files with errors`);
-    saveFileCatalog(catalogPath, catalog);
   } else {
     console.log('No files needed fixing');
   }
-  
+
   // Print summary
   console.log('\nSummary:');
-  console.log(`- Total files in catalog: ${Object.keys(catalog.files).length}`);
+  console.log(`- Total files in catalog: ${total - tempFilesRemoved}`);
   console.log(`- Files with errors: ${errorCount}`);
   console.log(`- Metadata size issues: ${metadataSizeIssues}`);
   console.log(`- Content extraction issues: ${contentExtractionIssues}`);
@@ -357,4 +182,4 @@ async function main() {
 main().catch(error => {
   console.error('Error:', error);
   process.exit(1);
-}); 
\ No newline at end of file
+});
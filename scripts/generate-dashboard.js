@@ -6,83 +6,46 @@
 
 const fs = require('fs');
 const path = require('path');
+const { listFiles } = require('./lib/catalog-api');
 
 // Paths
 const KNOWLEDGEBASE_DIR = path.join(process.cwd(), 'knowledgebase');
-const FILE_CATALOG_PATH = path.join(process.cwd(), 'file-catalog.json');
-const DATA_CATALOG_PATH = path.join(process.cwd(), 'data', 'file-catalog.json');
 const DASHBOARD_PATH = path.join(process.cwd(), 'dashboard.html');
 
-// Load the file catalog
-function loadFileCatalog() {
-  try {
-    // Try the root directory first
-    if (fs.existsSync(FILE_CATALOG_PATH)) {
-      const data = fs.readFileSync(FILE_CATALOG_PATH, 'utf8');
-      return { path: FILE_CATALOG_PATH, catalog: JSON.parse(data) };
-    }
-    
-    // Try the data directory next
-    if (fs.existsSync(DATA_CATALOG_PATH)) {
-      const data = fs.readFileSync(DATA_CATALOG_PATH, 'utf8');
-      return { path: DATA_CATALOG_PATH, catalog: JSON.parse(data) };
-    }
-  } catch (error) {
-    console.error('Error loading file catalog:', error);
-  }
-  
-  throw new Error('File catalog not found');
-}
-
-// Check if a file exists in the knowledgebase
-function fileExists(fileName, relativePath) {
-  const filePath = path.join(KNOWLEDGEBASE_DIR, relativePath || '', fileName);
-  return fs.existsSync(filePath);
+// Check if a file exists in the knowledgebase (files extracted from an archive are checked through the archive)
+function fileExists(file) {
+  return Boolean(file.parentId) || fs.existsSync(path.join(KNOWLEDGEBASE_DIR, file.name));
 }
 
 // Get file statistics
-function getFileStats() {
-  const { catalog } = loadFileCatalog();
+async function getFileStats() {
+  const catalog = await listFiles({ sort: 'name' });
   
-  // Count files by status
-  const statusCounts = {};
   let errorFiles = [];
   let pendingFiles = [];
   let missingFiles = [];
   
-  for (const fileId in catalog.files) {
-    const file = catalog.files[fileId];
-    const status = file.processingStatus || 'unknown';
-    statusCounts[status] = (statusCounts[status] || 0) + 1;
-    
+  for (const file of catalog.files) {
     // Collect error files
-    if (status === 'error') {
+    if (file.processingStatus === 'error') {
       errorFiles.push({
         name: file.name,
-        path: file.path || '(root)',
         errorMessage: file.errorMessage || 'Unknown error'
       });
     }
     
     // Collect pending files
-    if (status === 'pending') {
-      pendingFiles.push({
-        name: file.name,
-        path: file.path || '(root)'
-      });
+    if (file.processingStatus === 'pending') {
+      pendingFiles.push({ name: file.name });
     }
     
     // Check for missing files
-    if (!fileExists(file.name, file.path)) {
-      missingFiles.push({
-        name: file.name,
-        path: file.path || '(root)'
-      });
+    if (!fileExists(file)) {
+      missingFiles.push({ name: file.name });
     }
   }
   
-  // Sort error files by name
-  errorFiles.sort((a, b) => a.name.localeCompare(b.name));
+  const missingCount = missingFiles.length;
   
   // Limit to 10 files for display
   errorFiles = errorFiles.slice(0, 10);
@@ -90,18 +53,19 @@ function getFileStats() {
   missingFiles = missingFiles.slice(0, 10);
   
   return {
-    totalFiles: Object.keys(catalog.files).length,
+    totalFiles: catalog.total,
     lastUpdated: catalog.lastUpdated,
-    statusCounts,
+    statusCounts: catalog.statusCounts,
     errorFiles,
     pendingFiles,
-    missingFiles
+    missingFiles,
+    missingCount
   };
 }
 
 // Generate HTML dashboard
-function generateDashboard() {
-  const stats = getFileStats();
+async function generateDashboard() {
+  const stats = await getFileStats();
   
   // Format date
   const lastUpdated = new Date(stats.lastUpdated).toLocaleString();
@@ -117,7 +81,7 @@ function generateDashboard() {
         </tr>
         ${stats.errorFiles.map(file => `
           <tr>
-            <td>${file.path}/${file.name}</td>
+            <td>${file.name}</td>
             <td>${file.errorMessage}</td>
           </tr>
         `).join('')}
@@ -133,7 +97,7 @@ function generateDashboard() {
   if (stats.pendingFiles.length > 0) {
     pendingFilesHtml = `
       <ul>
-        ${stats.pendingFiles.map(file => `<li>${file.path}/${file.name}</li>`).join('')}
+        ${stats.pendingFiles.map(file => `<li>${file.name}</li>`).join('')}
       </ul>
       ${stats.statusCounts.pending > 10 ? `<p>... and ${stats.statusCounts.pending - 10} more</p>` : ''}
     `;
@@ -146,9 +110,9 @@ function generateDashboard() {
   if (stats.missingFiles.length > 0) {
     missingFilesHtml = `
       <ul>
-        ${stats.missingFiles.map(file => `<li>${file.path}/${file.name}</li>`).join('')}
+        ${stats.missingFiles.map(file => `<li>${file.name}</li>`).join('')}
       </ul>
-      ${stats.missingFiles.length > 10 ? `<p>... and ${stats.missingFiles.length - 10} more</p>` : ''}
+      ${stats.missingCount > 10 ? `<p>... and ${stats.missingCount - 10} more</p>` : ''}
     `;
   } else {
     missingFilesHtml = '<p>No missing files</p>';
@@ -237,9 +201,9 @@ function generateDashboard() {
 }
 
 // Main function
-function main() {
+async function main() {
   try {
-    generateDashboard();
+    await generateDashboard();
   } catch (error) {
     console.error('Error generating dashboard:', error);
     process.exit(1);
@@ -0,0 +1,106 @@
+/**
+ * Client for the file catalog API
+ *
+ * The maintenance scripts read and change the catalog through the running app
+ * instead of parsing file-catalog.json, so they work with either catalog backend
+ * and do not race the app's own writes.
+ */
+
+// Configuration
+const API_URL = process.env.CATALOG_API_URL || 'http://localhost:3000';
+const API_SECRET_KEY = process.env.API_SECRET_KEY || 'default-secret-key';
+
+// Files fetched per request when listing the catalog (the most the API returns)
+const PAGE_SIZE = 500;
+
+// Send a request to the API and return its JSON response
+async function request(method, apiPath, body) {
+  let response;
+  try {
+    response = await fetch(`${API_URL}${apiPath}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-secret': API_SECRET_KEY
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  } catch (error) {
+    throw new Error(`Cannot reach the catalog API at ${API_URL}. Start the app (npm run dev) or set CATALOG_API_URL. (${error.message})`);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const error = new Error(`${method} ${apiPath} failed with status ${response.status}: ${data.error || response.statusText}`);
+    error.status = response.status;
+    throw error;
+  }
+  return data;
+}
+
+// List all files matching filters (status, source, mimeType, tag, from, to, dateField, sort, order)
+async function listFiles(filters = {}) {
+  const files = [];
+  let result;
+
+  for (let page = 1; ; page++) {
+    const params = new URLSearchParams({ ...filters, page: String(page), pageSize: String(PAGE_SIZE) });
+    result = await request('GET', `/api/file-catalog?${params}`);
+    files.push(...result.files);
+
+    if (result.files.length < PAGE_SIZE || files.length >= result.total) {
+      break;
+    }
+  }
+
+  return {
+    lastUpdated: result.lastUpdated,
+    total: result.total,
+    statusCounts: result.statusCounts,
+    files
+  };
+}
+
+// Count the files matching filters, by processing status, without listing them
+async function countFiles(filters = {}) {
+  const params = new URLSearchParams({ ...filters, pageSize: '1' });
+  const { lastUpdated, total, statusCounts } = await request('GET', `/api/file-catalog?${params}`);
+  return { lastUpdated, total, statusCounts };
+}
+
+// Return null instead of failing when a file is not in the catalog
+async function unlessNotFound(promise) {
+  try {
+    return await promise;
+  } catch (error) {
+    if (error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Get the catalog entry of a file, or null if it is not in the catalog
+function getFile(fileId) {
+  return unlessNotFound(request('GET', `/api/file-catalog/${encodeURIComponent(fileId)}`));
+}
+
+// Change the tags of a file, or reset it to pending with { processingStatus: 'pending' }
+function updateFile(fileId, changes) {
+  return request('PATCH', `/api/file-catalog/${encodeURIComponent(fileId)}`, changes);
+}
+
+// Remove a file, and the files extracted from it, from the catalog and delete their chunks;
+// null if it was already removed (as the files extracted from an archive are with the archive)
+function deleteFile(fileId) {
+  return unlessNotFound(request('DELETE', `/api/file-catalog/${encodeURIComponent(fileId)}`));
+}
+
+module.exports = {
+  API_URL,
+  listFiles,
+  countFiles,
+  getFile,
+  updateFile,
+  deleteFile
+};
@@ -6,14 +6,17 @@
  * This script performs comprehensive maintenance on the file catalog:
  * - Removes temporary files
  * - Cleans up missing files
- * - Fixes metadata size issues
  * - Resets processing status for files with errors
  * - Updates the knowledge base with selective processing
+ *
+ * The catalog is read and changed through the catalog API; the development
+ * server is started first if it is not running.
  */
 
 const path = require('path');
 const fs = require('fs');
 const http = require('http');
+const { listFiles, countFiles, updateFile, deleteFile } = require('./lib/catalog-api');
 
 // Configuration
 const API_SECRET_KEY = process.env.API_SECRET_KEY || 'default-secret-key';
@@ -42,121 +45,88 @@ async function main() {
   console.log('Starting catalog maintenance...');
   
   try {
-    // Load the file catalog
-    const fileCatalogPath = path.join(process.cwd(), 'file-catalog.json');
-    if (!fs.existsSync(fileCatalogPath)) {
-      console.error('File catalog not found at:', fileCatalogPath);
-      process.exit(1);
+    // The catalog is changed through the app, so make sure it is running
+    const isServerRunning = await checkServerRunning();
+    
+    if (!isServerRunning) {
+      console.log('Development server is not running. Starting server...');
+      startDevServer();
+      
+      // Wait for the server to start
+      console.log('Waiting for server to start...');
+      await new Promise(resolve => setTimeout(resolve, 10000));
     }
     
-    const catalogData = fs.readFileSync(fileCatalogPath, 'utf-8');
-    const catalog = JSON.parse(catalogData);
-    console.log(`Loaded file catalog with ${Object.keys(catalog.files).length} files`);
+    // Load the file catalog
+    const catalog = await listFiles();
+    console.log(`Loaded file catalog with ${catalog.total} files`);
     
     // Track statistics
     const stats = {
-      totalFiles: Object.keys(catalog.files).length,
+      totalFiles: catalog.total,
       temporaryFilesRemoved: 0,
       missingFilesRemoved: 0,
-      errorFilesReset: 0,
-      metadataIssuesFixed: 0
+      errorFilesReset: 0
     };
     
+    // Files removed in an earlier step are left out of the later ones
+    const isTemporary = file => file.name.startsWith('~$') || file.name.startsWith('._');
+    let files = catalog.files;
+    
     // 1. Remove temporary files (files with names starting with ~$ or ._)
-    const tempFileIds = Object.keys(catalog.files).filter(fileId => {
-      const file = catalog.files[fileId];
-      return file.name.startsWith('~$') || file.name.startsWith('._');
-    });
+    const tempFiles = files.filter(isTemporary);
     
-    if (tempFileIds.length > 0) {
-      console.log(`Found ${tempFileIds.length} temporary files to remove`);
+    if (tempFiles.length > 0) {
+      console.log(`Found ${tempFiles.length} temporary files to remove`);
       
-      for (const fileId of tempFileIds) {
-        const fileName = catalog.files[fileId].name;
-        logVerbose(`Removing temporary file: ${fileName}`);
-        delete catalog.files[fileId];
+      for (const file of tempFiles) {
+        logVerbose(`Removing temporary file: ${file.name}`);
+        await deleteFile(file.id);
         stats.temporaryFilesRemoved++;
       }
-      
-      // Save the catalog after removing temporary files
-      saveCatalog(catalog, fileCatalogPath);
+      files = files.filter(file => !isTemporary(file));
     } else {
       console.log('No temporary files found');
     }
     
-    // 2. Clean up missing files
+    // 2. Clean up missing files (files extracted from an archive are checked through the archive)
     const knowledgebasePath = path.join(process.cwd(), 'knowledgebase');
-    const missingFileIds = Object.keys(catalog.files).filter(fileId => {
-      const file = catalog.files[fileId];
-      const filePath = file.path ? `${file.path}/${file.name}` : file.name;
-      const fullPath = path.join(knowledgebasePath, filePath);
-      return !fs.existsSync(fullPath);
+    const missingFiles = files.filter(file => {
+      return !file.parentId && !fs.existsSync(path.join(knowledgebasePath, file.name));
     });
     
-    if (missingFileIds.length > 0) {
-      console.log(`Found ${missingFileIds.length} missing files`);
+    if (missingFiles.length > 0) {
+      console.log(`Found ${missingFiles.length} missing files`);
       
       if (options.removeAll) {
         // Remove all missing files
-        for (const fileId of missingFileIds) {
-          const file = catalog.files[fileId];
-          const filePath = file.path ? `${file.path}/${file.name}` : file.name;
-          logVerbose(`Removing missing file: ${filePath}`);
-          delete catalog.files[fileId];
+        for (const file of missingFiles) {
+          logVerbose(`Removing missing file: ${file.name}`);
+          await deleteFile(file.id);
           stats.missingFilesRemoved++;
         }
-        
-        // Save the catalog after removing missing files
-        saveCatalog(catalog, fileCatalogPath);
+        const missingIds = new Set(missingFiles.map(file => file.id));
+        files = files.filter(file => !missingIds.has(file.id) && !missingIds.has(file.parentId));
       } else {
-        // Only remove temporary missing files by default
-        const tempMissingFileIds = missingFileIds.filter(fileId => {
-          const file = catalog.files[fileId];
-          return file.name.startsWith('~$') || file.name.startsWith('._');
-        });
-        
-        if (tempMissingFileIds.length > 0) {
-          for (const fileId of tempMissingFileIds) {
-            const file = catalog.files[fileId];
-            const filePath = file.path ? `${file.path}/${file.name}` : file.name;
-            logVerbose(`Removing temporary missing file: ${filePath}`);
-            delete catalog.files[fileId];
-            stats.missingFilesRemoved++;
-          }
-          
-          // Save the catalog after removing temporary missing files
-          saveCatalog(catalog, fileCatalogPath);
-        }
-        
-        if (tempMissingFileIds.length < missingFileIds.length) {
-          console.log(`${missingFileIds.length - tempMissingFileIds.length} non-temporary missing files were not removed. Use --remove-all to remove all missing files.`);
-        }
+        console.log(`${missingFiles.length} missing files were not removed. Use --remove-all to remove them now; the knowledge base update removes them otherwise.`);
       }
     } else {
       console.log('No missing files found');
     }
     
     // 3. Reset processing status for files with errors
-    const errorFileIds = Object.keys(catalog.files).filter(fileId => {
-      return catalog.files[fileId].processingStatus === 'error';
-    });
+    const errorFiles = files.filter(file => file.processingStatus === 'error');
     
-    if (errorFileIds.length > 0) {
-      console.log(`Found ${errorFileIds.length} files with errors`);
+    if (errorFiles.length > 0) {
+      console.log(`Found ${errorFiles.length} files with errors`);
       
       if (options.cleanErrors) {
         // Reset all error files
-        for (const fileId of errorFileIds) {
-          const file = catalog.files[fileId];
-          const filePath = file.path ? `${file.path}/${file.name}` : file.name;
-          logVerbose(`Resetting error status for file: ${filePath}`);
-          file.processingStatus = 'pending';
-          file.errorMessage = '';
+        for (const file of errorFiles) {
+          logVerbose(`Resetting error status for file: ${file.name}`);
+          await updateFile(file.id, { processingStatus: 'pending' });
           stats.errorFilesReset++;
         }
-        
-        // Save the catalog after resetting error files
-        saveCatalog(catalog, fileCatalogPath);
       } else {
         console.log(`Error files were not reset. Use --clean-errors to reset all error files.`);
       }
@@ -168,18 +138,6 @@ async function main() {
     if (!options.skipUpdate) {
       console.log('\nUpdating knowledge base with selective processing...');
       
-      // Check if the development server is running
-      const isServerRunning = await checkServerRunning();
-      
-      if (!isServerRunning) {
-        console.log('Development server is not running. Starting server...');
-        startDevServer();
-        
-        // Wait for the server to start
-        console.log('Waiting for server to start...');
-        await new Promise(resolve => setTimeout(resolve, 10000));
-      }
-      
       // Start timer
       const startTime = Date.now();
       
@@ -215,11 +173,10 @@ async function main() {
     
     // Print maintenance summary
     console.log('\n=== Maintenance Summary ===');
-    console.log(`- Total files in catalog: ${Object.keys(catalog.files).length}`);
+    console.log(`- Total files in catalog: ${(await countFiles()).total}`);
     console.log(`- Temporary files removed: ${stats.temporaryFilesRemoved}`);
     console.log(`- Missing files removed: ${stats.missingFilesRemoved}`);
     console.log(`- Error files reset: ${stats.errorFilesReset}`);
-    console.log(`- Metadata issues fixed: ${stats.metadataIssuesFixed}`);
     
     console.log('\nCatalog maintenance completed successfully!');
     
@@ -229,22 +186,6 @@ async function main() {
   }
 }
 
-// Helper function to save the catalog
-function saveCatalog(catalog, filePath) {
-  try {
-    // Update the lastUpdated timestamp
-    catalog.lastUpdated = new Date().toISOString();
-    
-    // Write the catalog to file
-    fs.writeFileSync(filePath, JSON.stringify(catalog, null, 2));
-    console.log(`File catalog saved with ${Object.keys(catalog.files).length} files`);
-    return true;
-  } catch (error) {
-    console.error('Error saving file catalog:', error);
-    return false;
-  }
-}
-
 // Check if the development server is running
 function checkServerRunning() {
   try {
@@ -303,7 +244,8 @@ function callUpdateAPI() {
   return new Promise((resolve, reject) => {
     // Prepare the request data
     const data = JSON.stringify({
-      secretKey: API_SECRET_KEY
+      secret: API_SECRET_KEY,
+      trigger: 'cli'    // Recorded in the processing history of the files updated
     });
     
     // Prepare the request options
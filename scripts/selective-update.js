@@ -136,7 +136,8 @@ function callUpdateAPI() {
   return new Promise((resolve, reject) => {
     // Prepare the request data
     const data = JSON.stringify({
-      secretKey: API_SECRET_KEY
+      secret: API_SECRET_KEY,
+      trigger: 'cli'    // Recorded in the processing history of the files updated
     });
     
     // Prepare the request options
@@ -2,19 +2,26 @@
 import { google } from "googleapis";
 import path from "path";
 import fs from "fs";
-import { store } from "@/lib/vector";
+import crypto from "crypto";
+import { store, updateChunkMetadata } from "@/lib/vector";
+import { embeddingModel } from "@/lib/embedding-model";
+import { parentChunkStore } from "@/lib/parent-store";
 import { redis } from "@/lib/redis";
-import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
-import { getFilenames, removeAndCreateFolder } from "@/utils/utils";
-import { PDFLoader as LangChainPDFLoader } from "@langchain/community/document_loaders/fs/pdf";
-import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
 import { Document } from "@langchain/core/documents";
-import * as mammoth from "mammoth";
+import { getFilenames, removeAndCreateFolder } from "@/utils/utils";
 import { UnstructuredClient } from "unstructured-client";
 import { 
-  getDocumentLoader as getModularDocumentLoader, 
-  isSupportedFileType as isModularSupportedFileType, 
-  getMimeTypeFromPath 
+  isSupportedFileType, 
+  getMimeTypeFromPath,
+  getSupportedExtensions,
+  getSupportedMimeTypes,
+  isArchiveFile,
+  extractArchive,
+  isLowConfidenceDecoding,
+  streamDocuments,
+  getIsolatedDocumentLoader,
+  IsolatedLoaderError,
+  resolveLoader
 } from "@/loaders";
 import { 
   loadFileCatalog, 
@@ -23,9 +30,18 @@ import {
   updateFileMetadata, 
   calculateFileHash,
   removeFileFromCatalog,
-  checkForFileChanges
+  checkForFileChanges,
+  listKnowledgebaseFiles,
+  addChildFileToCatalog,
+  getChildFiles,
+  getFileById,
+  getFileByName,
+  startProcessingRun,
+  finishProcessingRun
 } from "@/utils/file-catalog";
+import { ChunkHash, FileMetadata, ProcessingProgress, ProcessingRun, ProcessingTrigger, StoredChunk } from "@/types/file-catalog";
 import { logger } from "@/utils/logger";
+import { ParentChunk, createParentChildChunker, getAppliedChunkingProfile, selectChunkingProfile } from "@/chunking";
 
 const credentialFilename = "service-credentials.json";
 const scopes = ["https://www.googleapis.com/auth/drive"];
@@ -35,15 +51,25 @@ const folderName = "knowledgebase";
 const getRandomNumber = () => Math.random() * 1000000;
 
 const dirPath = "knowledgebase";
-// Update to support multiple file extensions
-const supportedExtensions = ['.pdf', '.docx', '.txt', '.md', '.gdoc'];
-const supportedMimeTypes = [
-  'application/pdf',                                                // PDF
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // DOCX
-  'text/plain',                                                     // TXT
-  'text/markdown',                                                  // MD
-  'application/vnd.google-apps.document'                            // Google Docs
-];
+// Folder inside the knowledgebase where archives are expanded
+const archiveDirName = ".archives";
+// Number of chunks embedded and stored together; progress is recorded after each batch
+const embeddingBatchSize = 100;
+// Google Workspace files have no binary content and must be exported
+const googleExportFormats: Record<string, { mimeType: string; extension: string }> = {
+  'application/vnd.google-apps.document': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: '.docx'
+  },
+  'application/vnd.google-apps.spreadsheet': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: '.xlsx'
+  },
+  'application/vnd.google-apps.presentation': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    extension: '.pptx'
+  }
+};
 
 // Initialize the Unstructured client
 // Note: You'll need to sign up for an API key at https://app.unstructured.io
@@ -57,74 +83,6 @@ const getFileExtension = (filename: string): string => {
   return path.extname(filename).toLowerCase();
 };
 
-// Helper function to determine the appropriate loader for a file
-const getDocumentLoader = (filePath: string) => {
-  const extension = getFileExtension(filePath);
-  
-  switch (extension) {
-    case '.pdf':
-      return new LangChainPDFLoader(filePath);
-    case '.docx':
-      // Custom loader for DOCX using mammoth
-      return {
-        load: async () => {
-          try {
-            const buffer = fs.readFileSync(filePath);
-            const result = await mammoth.extractRawText({ buffer });
-            const text = result.value || "";
-            
-            return [
-              new Document({
-                pageContent: text,
-                metadata: { source: filePath },
-              }),
-            ];
-          } catch (error) {
-            console.error(`Error processing DOCX file ${filePath}:`, error);
-            return [];
-          }
-        },
-      };
-    case '.txt':
-    case '.md':
-      // Simple text loader
-      return {
-        load: async () => {
-          try {
-            const text = fs.readFileSync(filePath, "utf-8");
-            return [
-              new Document({
-                pageContent: text,
-                metadata: { source: filePath },
-              }),
-            ];
-          } catch (error) {
-            console.error(`Error processing text file ${filePath}:`, error);
-            return [];
-          }
-        },
-      };
-    default:
-      // For unknown types, try to read as text
-      return {
-        load: async () => {
-          try {
-            const text = fs.readFileSync(filePath, "utf-8");
-            return [
-              new Document({
-                pageContent: text,
-                metadata: { source: filePath },
-              }),
-            ];
-          } catch (error) {
-            console.error(`Error processing file ${filePath}:`, error);
-            return [];
-          }
-        },
-      };
-  }
-};
-
 // Interface for Google Drive file
 interface DriveFile {
   id?: string | null;
@@ -132,13 +90,6 @@ interface DriveFile {
   mimeType?: string | null;
 }
 
-// Helper function to check if a file type is supported
-const isSupportedFileType = (filename: string | null): boolean => {
-  if (!filename) return false;
-  const extension = getFileExtension(filename);
-  return supportedExtensions.includes(extension);
-};
-
 export const fetchDataFromDriveAndSaveLocally = async () => {
   try {
     const auth = new google.auth.GoogleAuth({
@@ -188,9 +139,11 @@ export const fetchDataFromDriveAndSaveLocally = async () => {
         return false;
       }
       
-      // At this point, we know file.name is not null or undefined
-      return supportedMimeTypes.includes(file.mimeType || '') || 
-        supportedExtensions.some(ext => file.name!.toLowerCase().endsWith(ext));
+      // Accept formats handled by a registered loader and exportable Google Workspace files
+      const mimeType = file.mimeType || '';
+      return mimeType in googleExportFormats ||
+        getSupportedMimeTypes().includes(mimeType) ||
+        getSupportedExtensions().includes(getFileExtension(file.name));
     });
     
     console.log(`Found ${files.length} total files, ${supportedFiles.length} supported files in Google Drive folder`);
@@ -228,16 +181,17 @@ export const fetchDataFromDriveAndSaveLocally = async () => {
       
       const downloadPromise = new Promise<void>(async (resolve, reject) => {
         try {
-          // Special handling for Google Docs - export as DOCX
+          // Special handling for Google Docs/Sheets/Slides - export as DOCX/XLSX/PPTX
           let destPath: string;
+          const exportFormat = googleExportFormats[fileMimeType];
           
-          if (fileMimeType === 'application/vnd.google-apps.document') {
-            // For Google Docs, export as DOCX
+          if (exportFormat) {
+            // For Google Workspace files, export to the matching Office format
             const baseFileName = fileName.replace(/\.[^/.]+$/, ""); // Remove any extension
             destPath = path.join(
               rootDirectory,
               folderName,
-              `${baseFileName}.docx` // Add .docx extension
+              `${baseFileName}${exportFormat.extension}` // Add the export extension
             );
             
             console.log(`Exporting Google Doc to: ${destPath}`);
@@ -246,7 +200,7 @@ export const fetchDataFromDriveAndSaveLocally = async () => {
             try {
               const fileResponse = await drive.files.export({
                 fileId: fileId,
-                mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+                mimeType: exportFormat.mimeType
               }, {
                 responseType: "stream"
               });
@@ -275,8 +229,7 @@ export const fetchDataFromDriveAndSaveLocally = async () => {
                   console.log(`Google Doc ${fileName} exported successfully (${receivedBytes} bytes)`);
                   
                   // Add or update file in catalog with driveId
-                  const exportedFileName = path.basename(destPath);
-                  const exportedMimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+                  const exportedMimeType = exportFormat.mimeType;
                   const exportedSize = fs.statSync(destPath).size;
                   
                   addFileToFileCatalog(
@@ -398,45 +351,390 @@ export const fetchDataFromDriveAndSaveLocally = async () => {
   }
 };
 
-export const generateBotVectorData = async () => {
-  logger.info("Starting vector database generation");
+// Get the vector store chunk IDs of a file and of any files extracted from it, including
+// chunks of a previous version that an unfinished run has not reused or deleted yet
+const getFileChunkIds = (fileMetadata: FileMetadata): string[] => {
+  return [fileMetadata, ...getChildFiles(fileMetadata.id)].flatMap(file => [
+    ...(file.chunkIds || []),
+    ...(file.progress?.previousChunks || []).map(chunk => chunk.id)
+  ]);
+};
+
+// Get the parent chunk store IDs of a file and of any files extracted from it, including
+// sections of a previous version that an unfinished run has not deleted yet
+const getFileParentChunkIds = (fileMetadata: FileMetadata): string[] => {
+  return [fileMetadata, ...getChildFiles(fileMetadata.id)].flatMap(file => [
+    ...(file.parentChunkIds || []),
+    ...(file.progress?.previousParentChunkIds || [])
+  ]);
+};
+
+// Remove the catalog entries of files extracted from an archive
+const removeChildFiles = (parentId: string) => {
+  getChildFiles(parentId).forEach(child => removeFileFromCatalog(child.id));
+};
+
+// Delete the stored chunks of a file (and of any files extracted from it) before it is processed again
+const clearFileChunks = async (fileMetadata: FileMetadata) => {
+  const existingChunkIds = getFileChunkIds(fileMetadata);
+  if (existingChunkIds.length > 0) {
+    logger.info(`Removing ${existingChunkIds.length} existing chunks for ${fileMetadata.name}`);
+    await store.delete({ ids: existingChunkIds });
+  }
+  await parentChunkStore.mdelete(getFileParentChunkIds(fileMetadata));
+  removeChildFiles(fileMetadata.id);
   
-  // Load the file catalog to check for existing files
-  const catalog = loadFileCatalog();
+  // Reset chunk information
+  updateFileMetadata(fileMetadata.id, {
+    chunkCount: 0,
+    chunkIds: [],
+    chunkHashes: [],
+    parentChunkIds: [],
+    progress: undefined
+  });
+};
+
+// Prepare a changed file to be processed again. Its stored chunks, and those left over by an
+// interrupted run, are kept for new chunks with the same text to reuse; chunks stored before
+// chunk hashes were recorded cannot be matched and are deleted
+const resetForReprocessing = async (fileMetadata: FileMetadata): Promise<FileMetadata> => {
+  const { chunkIds = [], chunkHashes = [], parentChunkIds = [], progress } = fileMetadata;
+  const hasHashes = chunkHashes.length === chunkIds.length;
   
-  // Check for file changes
-  const { filesToProcess, filesToSkip, deletedFileIds } = checkForFileChanges(
-    dirPath,
-    isModularSupportedFileType
-  );
+  if (!hasHashes) {
+    logger.info(`Removing ${chunkIds.length} existing chunks for ${fileMetadata.name}`);
+    await store.delete({ ids: chunkIds });
+  }
   
-  logger.info(`Found ${filesToProcess.length + filesToSkip.length} supported files`);
-  logger.info(`${filesToProcess.length} files need processing, ${filesToSkip.length} files unchanged`);
+  const updates: Partial<FileMetadata> = {
+    chunkCount: 0,
+    chunkIds: [],
+    chunkHashes: [],
+    parentChunkIds: [],
+    warnings: undefined,
+    progress: {
+      contentHash: fileMetadata.contentHash || '',
+      documentsProcessed: 0,
+      updatedAt: new Date().toISOString(),
+      previousChunks: [
+        ...(hasHashes ? chunkIds.map((id, index) => ({ id, hash: chunkHashes[index] })) : []),
+        ...(progress?.previousChunks || [])
+      ],
+      previousParentChunkIds: Array.from(new Set([...parentChunkIds, ...(progress?.previousParentChunkIds || [])]))
+    }
+  };
   
-  // Handle deleted files
-  if (deletedFileIds.length > 0) {
-    logger.info(`Detected ${deletedFileIds.length} files that have been removed`);
+  updateFileMetadata(fileMetadata.id, updates);
+  return { ...fileMetadata, ...updates };
+};
+
+// Hash a chunk's text, which alone determines its vector, and its metadata. The load time
+// set by loaders is left out, so chunks of an unchanged part of a file hash the same
+const getChunkHash = (doc: Document): ChunkHash => {
+  const hash = (value: string) => crypto.createHash("sha256").update(value).digest("hex").substring(0, 16);
+  return {
+    content: hash(doc.pageContent),
+    metadata: hash(JSON.stringify({ ...doc.metadata, createdAt: undefined }))
+  };
+};
+
+// Collect non-fatal problems reported by a loader in document metadata
+const getDocumentWarnings = (docs: Document[]): string[] => {
+  const uncertainDoc = docs.find(doc =>
+    typeof doc.metadata.encodingConfidence === 'number' &&
+    isLowConfidenceDecoding(doc.metadata.encodingConfidence));
+  
+  if (!uncertainDoc) return [];
+  
+  const { encoding, encodingConfidence } = uncertainDoc.metadata;
+  return [`Text decoded as ${encoding} with low confidence (${encodingConfidence}%); content may be garbled`];
+};
+
+// Get the progress of an interrupted run that can be resumed, if neither the file nor its
+// chunking profile has changed since. The file's hash in the catalog is the one just
+// calculated when its changes were checked
+const getResumableProgress = (fileMetadata: FileMetadata): ProcessingProgress | undefined => {
+  const { progress, chunkingProfile, contentHash } = fileMetadata;
+  const currentProfile = getAppliedChunkingProfile(selectChunkingProfile(fileMetadata));
+  
+  return progress &&
+    contentHash &&
+    progress.contentHash === contentHash &&
+    chunkingProfile?.settingsHash === currentProfile.settingsHash
+    ? progress
+    : undefined;
+};
+
+// Load, split and embed a single file, recording the result in the catalog.
+// Documents are streamed from the loader and their chunks stored in batches;
+// progress is recorded after each batch so an interrupted run can resume.
+// Chunks with the same text as a chunk of the previous version reuse its vector
+// instead of being embedded again; old chunks left unused are deleted at the end.
+const embedFile = async (filePath: string, fileMetadata: FileMetadata, resumeFrom?: ProcessingProgress) => {
+  const fileName = fileMetadata.name;
+  const contentHash = resumeFrom?.contentHash || fileMetadata.contentHash || '';
+  
+  // Run the loader for the file's type in a worker thread with time and memory limits
+  const loader = getIsolatedDocumentLoader(filePath, fileMetadata.id);
+  
+  // Split documents into parent sections and the smaller chunks that are embedded,
+  // with the profile selected by the file's tags, folder or type
+  const profile = selectChunkingProfile(fileMetadata);
+  const chunkingProfile = getAppliedChunkingProfile(profile);
+  const chunker = createParentChildChunker(profile);
+  logger.debug(`Chunking ${fileName} with the ${profile.name} profile`);
+  
+  const documentsToSkip = resumeFrom?.documentsProcessed || 0;
+  const chunkIds = resumeFrom ? [...fileMetadata.chunkIds] : [];
+  const chunkHashes = resumeFrom ? [...(fileMetadata.chunkHashes || [])] : [];
+  const parentChunkIds = resumeFrom ? [...(fileMetadata.parentChunkIds || [])] : [];
+  const previousParentChunkIds = resumeFrom?.previousParentChunkIds || [];
+  const warnings = new Set(resumeFrom ? fileMetadata.warnings : []);
+  let documentCount = 0;
+  let batch: Document[] = [];
+  let parentBatch: ParentChunk[] = [];
+  let embeddedCount = 0;
+  
+  // Chunks of the previous version by the hash of their text; identical chunks queue up
+  const reusableChunks = new Map<string, StoredChunk[]>();
+  (resumeFrom?.previousChunks || []).forEach(chunk => {
+    reusableChunks.set(chunk.hash.content, [...(reusableChunks.get(chunk.hash.content) || []), chunk]);
+  });
+  const getUnusedChunks = () => Array.from(reusableChunks.values()).flat();
+  
+  if (documentsToSkip > 0) {
+    logger.info(`Resuming ${fileName} after ${documentsToSkip} document(s) and ${chunkIds.length} stored chunks`);
+  }
+  
+  // Store the pending chunks and record how far the file has been processed
+  const storeBatch = async () => {
+    if (batch.length === 0) return;
+    
+    // Parents are stored first, so every chunk that can be retrieved has its parent
+    await parentChunkStore.mset(parentBatch.map(parent => [parent.id, parent.document]));
+    parentChunkIds.push(...parentBatch.map(parent => parent.id));
+    parentBatch = [];
+    
+    // Only chunks whose text is new are embedded; reused chunks get their new metadata
+    const hashes = batch.map(getChunkHash);
+    const reused = hashes.map(hash => reusableChunks.get(hash.content)?.shift());
+    const changed = batch.filter((_, index) => !reused[index]);
+    const outdated = batch.flatMap((document, index) => {
+      const chunk = reused[index];
+      return chunk && chunk.hash.metadata !== hashes[index].metadata ? [{ id: chunk.id, document }] : [];
+    });
     
-    // Get all chunk IDs from deleted files to remove from vector store
-    const chunkIdsToDelete: string[] = [];
+    logger.info(`SAVING ${batch.length} CHUNKS FROM ${fileName} TO VECTOR DATABASE (${changed.length} new or changed)`);
+    const newIds = changed.length > 0 ? await store.addDocuments(changed) : [];
+    await updateChunkMetadata(outdated);
+    chunkIds.push(...reused.map(chunk => chunk?.id ?? newIds.shift()!));
+    chunkHashes.push(...hashes);
+    embeddedCount += changed.length;
+    batch = [];
     
-    for (const fileId of deletedFileIds) {
-      const fileMetadata = catalog.files[fileId];
-      if (fileMetadata && fileMetadata.chunkIds && fileMetadata.chunkIds.length > 0) {
-        chunkIdsToDelete.push(...fileMetadata.chunkIds);
+    updateFileMetadata(fileMetadata.id, {
+      chunkCount: chunkIds.length,
+      chunkIds,
+      chunkHashes,
+      parentChunkIds,
+      chunkingProfile,
+      progress: {
+        contentHash,
+        documentsProcessed: documentCount,
+        updatedAt: new Date().toISOString(),
+        previousChunks: getUnusedChunks(),
+        previousParentChunkIds
       }
-      
-      // Remove file from catalog
-      removeFileFromCatalog(fileId);
+    });
+  };
+  
+  for await (const doc of streamDocuments(loader)) {
+    documentCount++;
+    
+    // Chunks of these documents were stored by the interrupted run
+    if (documentCount <= documentsToSkip) continue;
+    
+    if (documentCount === 1) {
+      logger.debug(`Preview of content: ${doc.pageContent.substring(0, 100)}...`);
     }
     
-    // Delete chunks from vector store
-    if (chunkIdsToDelete.length > 0) {
-      logger.info(`Removing ${chunkIdsToDelete.length} chunks from vector store for deleted files`);
-      await store.delete({ ids: chunkIdsToDelete });
+    getDocumentWarnings([doc]).forEach(warning => {
+      if (!warnings.has(warning)) logger.warn(`${fileName}: ${warning}`);
+      warnings.add(warning);
+    });
+    
+    // Chunk indexes run on across the documents of the file
+    const { parents, children } = await chunker.splitDocument(
+      doc,
+      parentChunkIds.length + parentBatch.length,
+      chunkIds.length + batch.length
+    );
+    parentBatch.push(...parents);
+    batch.push(...children);
+    
+    // Batches end on document boundaries, so a resumed run never stores a chunk twice
+    if (batch.length >= embeddingBatchSize) {
+      await storeBatch();
     }
   }
   
+  await storeBatch();
+  
+  // Whatever the file no longer contains is removed
+  const removedChunkIds = getUnusedChunks().map(chunk => chunk.id);
+  if (removedChunkIds.length > 0) {
+    logger.info(`Removing ${removedChunkIds.length} chunks no longer in ${fileName}`);
+    await store.delete({ ids: removedChunkIds });
+  }
+  const currentParentChunkIds = new Set(parentChunkIds);
+  await parentChunkStore.mdelete(previousParentChunkIds.filter(id => !currentParentChunkIds.has(id)));
+  
+  if (documentCount === 0) {
+    logger.warn(`No content extracted from ${fileName}`);
+    updateFileMetadata(fileMetadata.id, {
+      processingStatus: 'error',
+      errorMessage: 'No content extracted from file',
+      progress: undefined,
+      processedAt: new Date().toISOString()
+    });
+    return;
+  }
+  
+  logger.info(`Extracted ${documentCount} document(s) from ${fileName}, split into ${parentChunkIds.length} sections of ${chunkIds.length} chunks (${embeddedCount} embedded in this run)`);
+  
+  // Update file metadata with chunk information
+  updateFileMetadata(fileMetadata.id, {
+    processingStatus: 'success',
+    errorMessage: undefined,
+    errorReason: undefined,
+    chunkCount: chunkIds.length,
+    chunkIds,
+    chunkHashes,
+    parentChunkIds,
+    chunkingProfile,
+    warnings: warnings.size > 0 ? Array.from(warnings) : undefined,
+    progress: undefined,
+    processedAt: new Date().toISOString()
+  });
+  
+  logger.info(`Successfully saved chunks from ${fileName}`);
+};
+
+// Record the start of a file's processing in its history, with what it is processed with
+const startRun = (filePath: string, fileMetadata: FileMetadata, trigger: ProcessingTrigger): ProcessingRun =>
+  startProcessingRun(fileMetadata.id, {
+    trigger,
+    contentHash: fileMetadata.contentHash,
+    loader: resolveLoader(filePath)?.name,
+    chunkingProfile: selectChunkingProfile(fileMetadata).name,
+    embeddingModel: embeddingModel.name
+  });
+
+// Record how a file's processing ended, from the state it was left in the catalog
+const finishRun = (run: ProcessingRun): FileMetadata | undefined => {
+  const file = getFileById(run.fileId);
+  finishProcessingRun(run, {
+    status: file?.processingStatus === 'success' ? 'success' : 'error',
+    chunkCount: file?.chunkCount,
+    errorMessage: file?.processingStatus === 'success' ? undefined : file?.errorMessage
+  });
+  return file;
+};
+
+// Expand an archive and embed each supported file inside it as a child catalog entry
+const embedArchive = async (filePath: string, fileMetadata: FileMetadata, trigger: ProcessingTrigger) => {
+  const extractionDir = path.join(dirPath, archiveDirName, fileMetadata.id);
+  fs.rmSync(extractionDir, { recursive: true, force: true });
+  
+  const entries = await extractArchive(filePath, extractionDir);
+  logger.info(`Extracted ${entries.length} supported file(s) from archive ${fileMetadata.name}`);
+  
+  let chunkCount = 0;
+  let failedCount = 0;
+  
+  for (const entry of entries) {
+    const childMetadata = addChildFileToCatalog(
+      fileMetadata.id,
+      entry.archivePath,
+      getMimeTypeFromPath(entry.filePath),
+      entry.size,
+      await calculateFileHash(entry.filePath)
+    );
+    if (!childMetadata) continue;
+    
+    const run = startRun(entry.filePath, childMetadata, trigger);
+    try {
+      await embedFile(entry.filePath, childMetadata);
+    } catch (error) {
+      logger.error(`Error processing ${childMetadata.name}:`, error);
+      updateFileMetadata(childMetadata.id, {
+        processingStatus: 'error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        errorReason: error instanceof IsolatedLoaderError ? error.reason : undefined,
+        processedAt: new Date().toISOString()
+      });
+    }
+    
+    const processedChild = finishRun(run);
+    if (processedChild?.processingStatus === 'success') {
+      chunkCount += processedChild.chunkCount;
+    } else {
+      failedCount++;
+    }
+  }
+  
+  // The archive's own chunk list stays empty; its chunks belong to its children
+  const succeeded = entries.length - failedCount;
+  updateFileMetadata(fileMetadata.id, {
+    processingStatus: succeeded > 0 ? 'success' : 'error',
+    errorMessage: succeeded > 0
+      ? undefined
+      : entries.length === 0 ? 'No supported files found in archive' : 'No files in archive could be processed',
+    chunkCount,
+    processedAt: new Date().toISOString()
+  });
+};
+
+// Remove files (and files extracted from them) from the catalog, deleting their chunks from
+// the vector store and their sections from the parent chunk store
+export const removeFilesFromKnowledgebase = async (fileIds: string[]) => {
+  const chunkIdsToDelete: string[] = [];
+  const parentChunkIdsToDelete: string[] = [];
+  
+  for (const fileId of fileIds) {
+    const fileMetadata = getFileById(fileId);
+    if (fileMetadata) {
+      chunkIdsToDelete.push(...getFileChunkIds(fileMetadata));
+      parentChunkIdsToDelete.push(...getFileParentChunkIds(fileMetadata));
+    }
+    
+    // Remove file (and its children) from catalog
+    removeFileFromCatalog(fileId);
+  }
+  
+  // Delete chunks from vector store
+  if (chunkIdsToDelete.length > 0) {
+    logger.info(`Removing ${chunkIdsToDelete.length} chunks from vector store for removed files`);
+    await store.delete({ ids: chunkIdsToDelete });
+  }
+  await parentChunkStore.mdelete(parentChunkIdsToDelete);
+};
+
+export const generateBotVectorData = async (trigger: ProcessingTrigger = 'dashboard') => {
+  logger.info("Starting vector database generation");
+  
+  // Check for file changes
+  const { filesToProcess, filesToSkip, deletedFileIds } = await checkForFileChanges(dirPath);
+  
+  logger.info(`Found ${filesToProcess.length + filesToSkip.length} supported files`);
+  logger.info(`${filesToProcess.length} files need processing, ${filesToSkip.length} files unchanged`);
+  
+  // Handle deleted files
+  if (deletedFileIds.length > 0) {
+    logger.info(`Detected ${deletedFileIds.length} files that have been removed`);
+    await removeFilesFromKnowledgebase(deletedFileIds);
+  }
+  
   // If no files need processing, we're done
   if (filesToProcess.length === 0) {
     logger.info("No files need processing, vector database is up to date");
@@ -450,83 +748,42 @@ export const generateBotVectorData = async () => {
     const filePath = path.join(dirPath, fileName);
     logger.info(`Processing file: ${fileName}`);
     
+    // Find the file in the catalog
+    const fileMetadata = getFileByName(fileName);
+    
+    if (!fileMetadata) {
+      logger.error(`File ${fileName} not found in catalog, skipping`);
+      continue;
+    }
+    
+    const run = startRun(filePath, fileMetadata, trigger);
     try {
-      // Find the file in the catalog
-      const fileMetadata = Object.values(catalog.files).find(file => file.name === fileName);
-      
-      if (!fileMetadata) {
-        logger.error(`File ${fileName} not found in catalog, skipping`);
-        continue;
-      }
-      
-      // If file has existing chunks, delete them first
-      if (fileMetadata.chunkIds && fileMetadata.chunkIds.length > 0) {
-        logger.info(`Removing ${fileMetadata.chunkIds.length} existing chunks for ${fileName}`);
-        await store.delete({ ids: fileMetadata.chunkIds });
-        
-        // Reset chunk information
-        updateFileMetadata(fileMetadata.id, {
-          chunkCount: 0,
-          chunkIds: []
-        });
-      }
-      
-      // Use the appropriate loader based on file extension
-      const loader = getModularDocumentLoader(filePath, fileMetadata.id);
-      const docs = await loader.load();
-      
-      if (docs.length === 0) {
-        logger.warn(`No content extracted from ${fileName}`);
-        updateFileMetadata(fileMetadata.id, {
-          processingStatus: 'error',
-          errorMessage: 'No content extracted from file',
-          processedAt: new Date().toISOString()
-        });
-        continue;
+      if (isArchiveFile(filePath)) {
+        await clearFileChunks(fileMetadata);
+        await embedArchive(filePath, fileMetadata, trigger);
+      } else {
+        // Continue an interrupted run of an unchanged file; otherwise start over, reusing
+        // the stored chunks whose text has not changed
+        const resumeFrom = getResumableProgress(fileMetadata);
+        if (resumeFrom) {
+          await embedFile(filePath, fileMetadata, resumeFrom);
+        } else {
+          const resetMetadata = await resetForReprocessing(fileMetadata);
+          await embedFile(filePath, resetMetadata, resetMetadata.progress);
+        }
       }
+    } catch (error) {
+      logger.error(`Error processing file ${fileName}:`, error);
       
-      logger.info(`Extracted ${docs.length} document(s) from ${fileName}`);
-      logger.debug(`Preview of content: ${docs[0].pageContent.substring(0, 100)}...`);
-      
-      // Split documents into chunks
-      const textSplitter = new RecursiveCharacterTextSplitter({
-        chunkSize: 1000,
-        chunkOverlap: 200,
-      });
-      
-      const chunks = await textSplitter.splitDocuments(docs);
-      logger.info(`Split into ${chunks.length} chunks`);
-      
-      // Save chunks to vector database
-      logger.info(`SAVING ${chunks.length} CHUNKS FROM ${fileName} TO VECTOR DATABASE`);
-      
-      // Store chunks and get their IDs
-      const ids = await store.addDocuments(chunks);
-      
-      // Update file metadata with chunk information
+      // Update file metadata with error information
       updateFileMetadata(fileMetadata.id, {
-        processingStatus: 'success',
-        chunkCount: chunks.length,
-        chunkIds: ids,
+        processingStatus: 'error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        errorReason: error instanceof IsolatedLoaderError ? error.reason : undefined,
         processedAt: new Date().toISOString()
       });
-      
-      logger.info(`Successfully saved chunks from ${fileName}`);
-    } catch (error) {
-      logger.error(`Error processing file ${fileName}:`, error);
-      
-      // Find the file in the catalog
-      const fileEntry = Object.values(catalog.files).find(file => file.name === fileName);
-      
-      if (fileEntry) {
-        // Update file metadata with error information
-        updateFileMetadata(fileEntry.id, {
-          processingStatus: 'error',
-          errorMessage: error instanceof Error ? error.message : String(error),
-          processedAt: new Date().toISOString()
-        });
-      }
     }
+    finishRun(run);
   }
   
   logger.info("ALL DOCUMENTS ARE SAVED IN VECTOR DATABASE");
@@ -541,9 +798,9 @@ export const checkManuallyPlacedFiles = () => {
     return false;
   }
   
-  const files = fs.readdirSync(manualFilesPath);
+  const files = listKnowledgebaseFiles(manualFilesPath);
   const supportedFiles = files.filter(file => 
-    supportedExtensions.some(ext => file.toLowerCase().endsWith(ext))
+    isSupportedFileType(path.join(manualFilesPath, file))
   );
   
   console.log(`Found ${supportedFiles.length} manually placed supported files in the knowledgebase folder`);
@@ -551,7 +808,7 @@ export const checkManuallyPlacedFiles = () => {
 };
 
 // Modify the generateEmbeddings function to try manual files if Google Drive fails
-export const generateEmbeddings = async () => {
+export const generateEmbeddings = async (trigger: ProcessingTrigger = 'dashboard') => {
   try {
     // Clear the folder
     removeAndCreateFolder();
@@ -581,7 +838,7 @@ export const generateEmbeddings = async () => {
     logger.debug("File catalog before processing:", catalogBeforeProcessing);
     
     // Generate the embeddings
-    await generateBotVectorData();
+    await generateBotVectorData(trigger);
     
     // Log the final state of the file catalog
     const catalogAfterProcessing = loadFileCatalog();
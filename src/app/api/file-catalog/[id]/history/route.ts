@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getFileById, getProcessingRuns } from '@/utils/file-catalog';
+import { logger } from '@/utils/logger';
+
+// Returns the processing history of a file, newest run first. The history of a
+// file removed from the catalog is still returned.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    logger.info(`API: Fetching processing history of file ${params.id}`);
+    
+    const runs = getProcessingRuns(params.id).reverse();
+    
+    if (runs.length === 0 && !getFileById(params.id)) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ fileId: params.id, runs });
+  } catch (error) {
+    logger.error('API: Error fetching processing history:', error);
+    
+    return NextResponse.json(
+      { error: 'Failed to fetch processing history', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
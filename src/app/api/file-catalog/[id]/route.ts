@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import { removeFilesFromKnowledgebase } from '@/actions/knowledgebase-embeddings';
+import { getChildFiles, getFileById, updateFilesMetadata } from '@/utils/file-catalog';
+import { FileMetadata } from '@/types/file-catalog';
+import { logger } from '@/utils/logger';
+
+// Secret key for authentication, shared with the scheduled update
+const API_SECRET = process.env.SCHEDULED_UPDATE_SECRET || 'default-secret-key';
+
+// Changes are only accepted with the secret key in the x-api-secret header
+const isAuthorized = (req: Request): boolean => req.headers.get('x-api-secret') === API_SECRET;
+
+const unauthorized = () => NextResponse.json(
+  { error: 'Unauthorized' },
+  { status: 401 }
+);
+
+const notFound = () => NextResponse.json(
+  { error: 'File not found' },
+  { status: 404 }
+);
+
+// Read the changes of a PATCH request: new tags, or a reset to pending so the next update processes the file again
+const parseChanges = (body: unknown): Partial<FileMetadata> | string => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return 'Request body must be a JSON object';
+  }
+
+  const { tags, processingStatus, ...rest } = body as Record<string, unknown>;
+  const unknownFields = Object.keys(rest);
+  if (unknownFields.length > 0) {
+    return `Fields cannot be changed: ${unknownFields.join(', ')}`;
+  }
+
+  const changes: Partial<FileMetadata> = {};
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string' && tag.trim() !== '')) {
+      return 'tags must be an array of non-empty strings';
+    }
+    changes.tags = Array.from(new Set(tags.map(tag => tag.trim())));
+  }
+  if (processingStatus !== undefined) {
+    if (processingStatus !== 'pending') {
+      return 'processingStatus can only be reset to pending';
+    }
+    changes.processingStatus = 'pending';
+    changes.errorMessage = undefined;
+    changes.errorReason = undefined;
+  }
+  return changes;
+};
+
+// Returns the catalog entry of a file, with its chunk lists
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    logger.info(`API: Fetching file ${params.id}`);
+
+    const file = getFileById(params.id);
+    if (!file) {
+      return notFound();
+    }
+
+    return NextResponse.json(file);
+  } catch (error) {
+    logger.error('API: Error fetching file:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch file', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Changes the tags of a file or resets it to pending. Tags also apply to the files extracted
+// from an archive, and the file is chunked again on the next update if they select another
+// chunking profile.
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    if (!isAuthorized(req)) {
+      logger.warn(`Unauthorized attempt to change file ${params.id}`);
+      return unauthorized();
+    }
+
+    const changes = parseChanges(await req.json().catch(() => null));
+    if (typeof changes === 'string') {
+      return NextResponse.json(
+        { error: changes },
+        { status: 400 }
+      );
+    }
+
+    const file = getFileById(params.id);
+    if (!file) {
+      return notFound();
+    }
+
+    logger.info(`API: Changing ${Object.keys(changes).join(', ') || 'nothing'} of file ${file.name}`);
+
+    const childUpdates = changes.tags
+      ? getChildFiles(file.id).map(child => ({ fileId: child.id, updates: { tags: changes.tags } }))
+      : [];
+    updateFilesMetadata([{ fileId: file.id, updates: changes }, ...childUpdates]);
+
+    return NextResponse.json(getFileById(file.id));
+  } catch (error) {
+    logger.error('API: Error changing file:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to change file', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Removes a file, and the files extracted from it, from the catalog and deletes their chunks.
+// The file itself is not deleted from the knowledgebase folder; if it is still there, the next
+// update adds it again.
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  try {
+    if (!isAuthorized(req)) {
+      logger.warn(`Unauthorized attempt to remove file ${params.id}`);
+      return unauthorized();
+    }
+
+    const file = getFileById(params.id);
+    if (!file) {
+      return notFound();
+    }
+
+    logger.info(`API: Removing file ${file.name}`);
+
+    await removeFilesFromKnowledgebase([file.id]);
+
+    return NextResponse.json({ success: true, fileId: file.id });
+  } catch (error) {
+    logger.error('API: Error removing file:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to remove file', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
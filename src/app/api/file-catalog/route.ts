@@ -1,21 +1,102 @@
 import { NextResponse } from 'next/server';
-import { loadFileCatalog } from '@/utils/file-catalog';
+import { queryFileCatalog } from '@/utils/file-catalog';
+import { CatalogQuery } from '@/types/file-catalog';
 import { logger } from '@/utils/logger';
 
-export async function GET() {
+const STATUSES = ['pending', 'success', 'error'];
+const SOURCES = ['google-drive', 'manual-upload'];
+const DATE_FIELDS = ['lastModified', 'processedAt'];
+const SORT_FIELDS = ['name', 'size', 'lastModified', 'processedAt', 'chunkCount'];
+const ORDERS = ['asc', 'desc'];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Error for a query parameter that cannot be used
+class InvalidParameterError extends Error {}
+
+// Read a query parameter that must be one of a set of values
+const getChoice = <T extends string>(params: URLSearchParams, name: string, choices: string[], defaultValue?: T): T | undefined => {
+  const value = params.get(name);
+  if (value === null) return defaultValue;
+  if (!choices.includes(value)) {
+    throw new InvalidParameterError(`${name} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+// Read a query parameter that must be a date, as an ISO timestamp
+const getDate = (params: URLSearchParams, name: string): string | undefined => {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new InvalidParameterError(`${name} must be a date`);
+  }
+  return date.toISOString();
+};
+
+// Read a query parameter that must be a positive integer
+const getPositiveInteger = (params: URLSearchParams, name: string, defaultValue: number): number => {
+  const value = params.get(name);
+  if (value === null) return defaultValue;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new InvalidParameterError(`${name} must be a positive integer`);
+  }
+  return number;
+};
+
+// Lists the files in the catalog. Files can be filtered by status, source, mimeType, tag and
+// a from/to date range on dateField, sorted by sort and order, and paged with page and pageSize.
+export async function GET(req: Request) {
   try {
-    logger.info('API: Fetching file catalog');
-    
-    // Load the file catalog
-    const catalog = loadFileCatalog();
-    
-    return NextResponse.json(catalog);
+    const params = new URL(req.url).searchParams;
+
+    let page: number;
+    let pageSize: number;
+    let query: CatalogQuery;
+    try {
+      page = getPositiveInteger(params, 'page', 1);
+      pageSize = getPositiveInteger(params, 'pageSize', DEFAULT_PAGE_SIZE);
+      if (pageSize > MAX_PAGE_SIZE) {
+        throw new InvalidParameterError(`pageSize must be at most ${MAX_PAGE_SIZE}`);
+      }
+
+      query = {
+        status: getChoice(params, 'status', STATUSES),
+        sourceLocation: getChoice(params, 'source', SOURCES),
+        mimeType: params.get('mimeType') || undefined,
+        tag: params.get('tag') || undefined,
+        dateField: getChoice(params, 'dateField', DATE_FIELDS, 'lastModified')!,
+        from: getDate(params, 'from'),
+        to: getDate(params, 'to'),
+        sort: getChoice(params, 'sort', SORT_FIELDS, 'name')!,
+        order: getChoice(params, 'order', ORDERS, 'asc')!,
+        offset: (page - 1) * pageSize,
+        limit: pageSize
+      };
+    } catch (error) {
+      if (error instanceof InvalidParameterError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    logger.info(`API: Fetching file catalog page ${page}`);
+
+    const { lastUpdated, total, statusCounts, files } = queryFileCatalog(query);
+
+    return NextResponse.json({ lastUpdated, total, page, pageSize, statusCounts, files });
   } catch (error) {
     logger.error('API: Error fetching file catalog:', error);
-    
+
     return NextResponse.json(
       { error: 'Failed to fetch file catalog', details: error instanceof Error ? error.message : String(error) },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -16,7 +16,7 @@ import {
 import { createStuffDocumentsChain } from "langchain/chains/combine_documents";
 import { createRetrievalChain } from "langchain/chains/retrieval";
 import { createHistoryAwareRetriever } from "langchain/chains/history_aware_retriever";
-import { store } from "@/lib/vector";
+import { ParentChunkRetriever } from "@/lib/parent-store";
 import { HumanMessage, AIMessage } from "@langchain/core/messages";
 import { UpstashRedisCache } from "@langchain/community/caches/upstash_redis";
 import { Redis } from "@upstash/redis";
@@ -32,9 +32,11 @@ export async function POST(req: Request) {
     
     // Parse the request body with better error handling
     let messages;
+    let filter;
     try {
       const body = await req.json();
       messages = body.messages;
+      filter = body.filter;
       if (!messages || !Array.isArray(messages)) {
         console.error("Invalid messages format: ", body);
         return Response.json(
@@ -42,6 +44,12 @@ export async function POST(req: Request) {
           { status: 400 }
         );
       }
+      if (filter !== undefined && typeof filter !== "string") {
+        return Response.json(
+          { error: "Invalid request: filter must be a string" },
+          { status: 400 }
+        );
+      }
     } catch (parseError) {
       console.error("Error parsing request JSON: ", parseError);
       return Response.json(
@@ -170,9 +178,11 @@ Always maintain a helpful, informative tone and format your responses using prop
       documentSeparator: "\n\n---\n\n",
     });
 
-    const retriever = store.asRetriever({
-      k: 5,  // Retrieve more documents for better context
-      searchType: "similarity",
+    // Match on small chunks, but give the model the larger sections they come from
+    const retriever = new ParentChunkRetriever({
+      childK: 20, // Matched chunks; several often share a section
+      parentK: 5,  // Sections passed to the model
+      filter,      // Optional metadata filter, e.g. "tags CONTAINS 'policy'"
     });
 
     console.log("Retrieving documents...");
@@ -1,14 +1,18 @@
 import { NextResponse } from 'next/server';
 import { generateEmbeddings } from '@/actions/knowledgebase-embeddings';
+import { ProcessingTrigger } from '@/types/file-catalog';
 import { logger } from '@/utils/logger';
 
 // Secret key for authentication
 const API_SECRET = process.env.SCHEDULED_UPDATE_SECRET || 'default-secret-key';
 
+// Updates are scheduled unless the caller says it is a command-line script
+const getTrigger = (trigger: unknown): ProcessingTrigger => trigger === 'cli' ? 'cli' : 'scheduled';
+
 export async function POST(req: Request) {
   try {
     // Check for authentication
-    const { secret } = await req.json();
+    const { secret, trigger } = await req.json();
     
     if (secret !== API_SECRET) {
       logger.warn('Unauthorized attempt to trigger scheduled update');
@@ -21,7 +25,7 @@ export async function POST(req: Request) {
     logger.info('Starting scheduled knowledge base update');
     
     // Generate embeddings (this now uses the selective update logic)
-    await generateEmbeddings();
+    await generateEmbeddings(getTrigger(trigger));
     
     logger.info('Scheduled knowledge base update completed successfully');
     
@@ -57,7 +61,7 @@ export async function GET(req: Request) {
     logger.info('Starting scheduled knowledge base update via GET');
     
     // Generate embeddings (this now uses the selective update logic)
-    await generateEmbeddings();
+    await generateEmbeddings(getTrigger(url.searchParams.get('trigger')));
     
     logger.info('Scheduled knowledge base update completed successfully');
     
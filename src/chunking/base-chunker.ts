@@ -0,0 +1,128 @@
+/**
+ * Base Chunker Utilities
+ *
+ * This file contains what the chunkers share: tracking the heading path of
+ * each block, measuring ranges in the configured unit, splitting chunks the
+ * embedding model could not read in full, and creating chunk documents.
+ */
+
+import { Document } from '@langchain/core/documents';
+import { ChunkMetadata, ChunkSizeUnit } from './types';
+import { Block, MeasureRange, TextRange, measureCharacters, splitBlock } from './blocks';
+import { TokenCounter } from './tokenizer';
+
+/**
+ * A finished chunk's range of the source text
+ */
+export interface ChunkRange extends TextRange {
+  headingPath?: string;
+  tokenCount: number;
+}
+
+/**
+ * Tracks the headings a document's blocks sit under. The path starts with
+ * the document's own heading path, set by loaders that split by section;
+ * a first block repeating the document's heading does not add to it.
+ */
+export class HeadingTracker {
+  private baseHeadings: string[];
+  private headingStack: { level: number; text: string }[] = [];
+  private isFirstBlock = true;
+
+  constructor(documentHeadingPath?: string) {
+    this.baseHeadings = documentHeadingPath ? documentHeadingPath.split(' > ') : [];
+  }
+
+  /**
+   * Update the path with the next block of the document
+   */
+  visit(block: Block): void {
+    const isFirstBlock = this.isFirstBlock;
+    this.isFirstBlock = false;
+    if (block.type !== 'heading') return;
+
+    if (isFirstBlock && block.text === this.baseHeadings[this.baseHeadings.length - 1]) return;
+
+    while (this.headingStack.length > 0 && this.headingStack[this.headingStack.length - 1].level >= block.level!) {
+      this.headingStack.pop();
+    }
+    this.headingStack.push({ level: block.level!, text: block.text! });
+  }
+
+  /**
+   * The headings the last visited block sits under, outermost first
+   */
+  get path(): string[] {
+    return [...this.baseHeadings, ...this.headingStack.map(heading => heading.text)];
+  }
+}
+
+/**
+ * Create the measures for a document's text
+ * @returns Token counts of ranges, and sizes of ranges in the given unit
+ */
+export const createMeasures = (text: string, unit: ChunkSizeUnit, tokenizer: TokenCounter) => {
+  const countTokens: MeasureRange = range => tokenizer.countTokens(text.substring(range.start, range.end));
+  return { countTokens, measure: unit === 'tokens' ? countTokens : measureCharacters };
+};
+
+/**
+ * Count the tokens of each chunk, splitting chunks that hold more tokens
+ * than the embedding model reads, since the model would silently truncate them
+ * @param text Document text
+ * @param ranges Chunk ranges
+ * @param countTokens Token counts of ranges of the text
+ * @param tokenLimit Most tokens a chunk may hold
+ * @param isCode Whether the text is code, which is split at line boundaries
+ */
+export const fitToTokenLimit = (
+  text: string,
+  ranges: (TextRange & { headingPath?: string })[],
+  countTokens: MeasureRange,
+  tokenLimit: number,
+  isCode = false
+): ChunkRange[] => {
+  return ranges.flatMap(range => {
+    const tokenCount = countTokens(range);
+    if (tokenCount <= tokenLimit) {
+      return [{ ...range, tokenCount }];
+    }
+
+    console.warn(`Splitting a chunk of ${tokenCount} tokens, more than the ${tokenLimit} the embedding model reads`);
+    const pieces = splitBlock(text, { type: isCode ? 'code' : 'paragraph', ...range }, tokenLimit, countTokens);
+    const packed: TextRange[] = [];
+    for (const piece of pieces) {
+      const last = packed[packed.length - 1];
+      if (last && countTokens({ start: last.start, end: piece.end }) <= tokenLimit) {
+        last.end = piece.end;
+      } else {
+        packed.push({ ...piece });
+      }
+    }
+    return packed.map(piece => ({ ...piece, headingPath: range.headingPath, tokenCount: countTokens(piece) }));
+  });
+};
+
+/**
+ * Create the chunk documents for ranges of a source document
+ * @param doc Document produced by a loader
+ * @param chunks Chunk ranges, in document order
+ * @param firstChunkIndex Index given to the first chunk
+ */
+export const createChunkDocuments = (doc: Document, chunks: ChunkRange[], firstChunkIndex: number): Document[] => {
+  return chunks.map((chunk, index) => {
+    const metadata: ChunkMetadata = {
+      ...(doc.metadata as ChunkMetadata),
+      headingPath: chunk.headingPath,
+      chunkIndex: firstChunkIndex + index,
+      startOffset: chunk.start,
+      endOffset: chunk.end,
+      tokenCount: chunk.tokenCount
+    };
+
+    return new Document({
+      pageContent: doc.pageContent.substring(chunk.start, chunk.end),
+      metadata
+    });
+  });
+};
@@ -0,0 +1,240 @@
+/**
+ * Document Block Parsing
+ *
+ * This file splits document text into structural blocks: headings,
+ * paragraphs, list items, tables and code blocks. Loaders render their
+ * content as Markdown-style text (Markdown headings, bullets and pipe
+ * tables), so the same rules apply to every format. Each block keeps the
+ * character offsets of its text, so chunks can point back at their source.
+ */
+
+export type BlockType = 'heading' | 'paragraph' | 'list-item' | 'table' | 'code';
+
+/**
+ * A structural block of document text
+ */
+export interface Block {
+  type: BlockType;
+  start: number;            // Offset of the first character of the block
+  end: number;              // Offset after the last character of the block
+  level?: number;           // Heading level (1-6), for headings
+  text?: string;            // Heading text, for headings
+}
+
+/**
+ * A range of text that chunks are built from
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Measures the size of a range of text, e.g. in characters or tokens
+ */
+export type MeasureRange = (range: TextRange) => number;
+
+export const measureCharacters: MeasureRange = range => range.end - range.start;
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+// Boundaries tried, in order, when a block is too long for one chunk
+const SENTENCE_BOUNDARY = /[.!?]["')\]]*\s+/g;
+const LINE_BOUNDARY = /\n+/g;
+const WORD_BOUNDARY = /\s+/g;
+
+/**
+ * Split text into structural blocks
+ * @param text Document text
+ * @returns Blocks in document order; blank lines are not part of any block
+ */
+export const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let fence: string | null = null;
+  let offset = 0;
+
+  const closeBlock = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  for (const line of text.split('\n')) {
+    const start = offset;
+    const end = offset + line.length;
+    offset = end + 1;
+
+    // Fenced code blocks are kept whole, whatever they contain
+    if (fence !== null) {
+      current!.end = end;
+      const fenceMatch = line.match(FENCE_PATTERN);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+        closeBlock();
+      }
+      continue;
+    }
+
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      closeBlock();
+      fence = fenceMatch[1];
+      current = { type: 'code', start, end };
+      continue;
+    }
+
+    if (!line.trim()) {
+      closeBlock();
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch && headingMatch[2]) {
+      closeBlock();
+      blocks.push({ type: 'heading', start, end, level: headingMatch[1].length, text: headingMatch[2].trim() });
+      continue;
+    }
+
+    const type: BlockType = TABLE_ROW_PATTERN.test(line)
+      ? 'table'
+      : LIST_ITEM_PATTERN.test(line) ? 'list-item' : 'paragraph';
+    const open = current as Block | null;
+
+    // Lines continue the open block unless they start a different kind of
+    // block; every list item starts a block of its own
+    const continues = open !== null && (
+      type === 'table'
+        ? open.type === 'table'
+        : type === 'paragraph' && (open.type === 'paragraph' || open.type === 'list-item')
+    );
+
+    if (continues) {
+      open.end = end;
+    } else {
+      closeBlock();
+      current = { type, start, end };
+    }
+  }
+
+  closeBlock();
+  return blocks.filter(block => block.end > block.start);
+};
+
+/**
+ * Split a block into ranges no larger than maxSize. Prose is split at
+ * sentence, then line, then word boundaries; tables, code and lists at
+ * line boundaries first, so rows and lines are kept intact.
+ * @param text Document text
+ * @param block Block to split
+ * @param maxSize Maximum range size
+ * @param measure How range sizes are measured; in characters by default
+ * @returns Ranges covering the block, in order
+ */
+export const splitBlock = (
+  text: string,
+  block: Pick<Block, 'type' | 'start' | 'end'>,
+  maxSize: number,
+  measure: MeasureRange = measureCharacters
+): TextRange[] => {
+  const boundaries = block.type === 'paragraph'
+    ? [SENTENCE_BOUNDARY, LINE_BOUNDARY, WORD_BOUNDARY]
+    : [LINE_BOUNDARY, WORD_BOUNDARY];
+
+  return splitRange(text, { start: block.start, end: block.end }, maxSize, measure, boundaries);
+};
+
+/**
+ * Split a range of prose into sentences
+ * @param text Document text
+ * @param range Range to split
+ * @returns Sentence ranges, without the whitespace between them
+ */
+export const splitSentences = (text: string, range: TextRange): TextRange[] => {
+  return splitAtBoundary(text, range, SENTENCE_BOUNDARY);
+};
+
+/**
+ * Find the end of the longest range from range.start, within range, no
+ * larger than maxSize. The range always holds at least one character.
+ */
+export const findRangeEnd = (range: TextRange, maxSize: number, measure: MeasureRange): number => {
+  let low = range.start + 1;
+  let high = range.end;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (measure({ start: range.start, end: middle }) <= maxSize) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * Find the start of the longest range ending at range.end, within range,
+ * no larger than maxSize
+ */
+export const findRangeStart = (range: TextRange, maxSize: number, measure: MeasureRange): number => {
+  let low = range.start;
+  let high = range.end;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (measure({ start: middle, end: range.end }) <= maxSize) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+};
+
+const splitRange = (
+  text: string,
+  range: TextRange,
+  maxSize: number,
+  measure: MeasureRange,
+  boundaries: RegExp[]
+): TextRange[] => {
+  if (measure(range) <= maxSize) {
+    return [range];
+  }
+
+  if (boundaries.length === 0) {
+    // No boundary left: cut at the maximum size
+    const ranges: TextRange[] = [];
+    for (let start = range.start; start < range.end;) {
+      const end = findRangeEnd({ start, end: range.end }, maxSize, measure);
+      ranges.push({ start, end });
+      start = end;
+    }
+    return ranges;
+  }
+
+  const [boundary, ...remaining] = boundaries;
+  return splitAtBoundary(text, range, boundary)
+    .flatMap(piece => splitRange(text, piece, maxSize, measure, remaining));
+};
+
+const splitAtBoundary = (text: string, range: TextRange, boundary: RegExp): TextRange[] => {
+  const pattern = new RegExp(boundary.source, 'g');
+  const segment = text.substring(range.start, range.end);
+  const pieces: TextRange[] = [];
+  let pieceStart = range.start;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(segment)) !== null) {
+    // Punctuation stays with the piece before the boundary; whitespace belongs to neither piece
+    const pieceEnd = range.start + match.index + match[0].trimEnd().length;
+    if (pieceEnd > pieceStart) pieces.push({ start: pieceStart, end: pieceEnd });
+    pieceStart = range.start + match.index + match[0].length;
+  }
+  if (range.end > pieceStart) pieces.push({ start: pieceStart, end: range.end });
+
+  return pieces;
+};
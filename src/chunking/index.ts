@@ -0,0 +1,17 @@
+/**
+ * Chunking
+ *
+ * This file re-exports the chunkers that split loaded documents into the
+ * chunks stored in the vector database, along with their types and the
+ * profiles that configure them.
+ */
+
+export * from './types';
+export * from './blocks';
+export * from './base-chunker';
+export * from './structure-chunker';
+export * from './semantic-chunker';
+export * from './tables';
+export * from './parent-child';
+export * from './tokenizer';
+export * from './profiles';
@@ -0,0 +1,90 @@
+/**
+ * Parent-Child Chunking
+ *
+ * Small chunks are matched precisely but give the LLM little context, and
+ * large chunks the other way round. This chunker splits each document into
+ * large parent sections and each parent into small child chunks. Only the
+ * children are embedded; each records the ID of its parent, which is stored
+ * separately and returned in its place when the child is retrieved.
+ * Parent IDs are derived from the parent's file and text, so a section that
+ * is unchanged when its file is processed again keeps its ID, and so do the
+ * links to it from its children.
+ */
+
+import { Document } from '@langchain/core/documents';
+import crypto from 'crypto';
+import { Chunker, ChunkMetadata } from './types';
+
+/**
+ * A parent section, keyed by the ID its children refer to
+ */
+export interface ParentChunk {
+  id: string;
+  document: Document;
+}
+
+export class ParentChildChunker {
+  private parentChunker: Chunker;
+  private childChunker: Chunker;
+
+  /**
+   * Create a new parent-child chunker
+   * @param parentChunker Chunker producing the parent sections
+   * @param childChunker Chunker splitting each parent into the chunks that are embedded
+   */
+  constructor(parentChunker: Chunker, childChunker: Chunker) {
+    this.parentChunker = parentChunker;
+    this.childChunker = childChunker;
+  }
+
+  /**
+   * Split a loaded document into parent sections and their child chunks
+   * @param doc Document produced by a loader
+   * @param firstParentIndex Index given to the first parent
+   * @param firstChildIndex Index given to the first child
+   * @returns Promise resolving to the parents and children, in document order
+   */
+  async splitDocument(
+    doc: Document,
+    firstParentIndex = 0,
+    firstChildIndex = 0
+  ): Promise<{ parents: ParentChunk[]; children: Document[] }> {
+    const parents: ParentChunk[] = [];
+    const children: Document[] = [];
+
+    for (const parentDocument of await this.parentChunker.splitDocument(doc, firstParentIndex)) {
+      const parent: ParentChunk = { id: getParentChunkId(parentDocument), document: parentDocument };
+      const parentMetadata = parentDocument.metadata as ChunkMetadata;
+      parents.push(parent);
+
+      const parentChildren = await this.childChunker.splitDocument(parentDocument, firstChildIndex + children.length);
+      // A piece of a split table starts with its repeated header, which lies
+      // before the rows its offsets cover
+      const parentStart = parentMetadata.endOffset - parentDocument.pageContent.length;
+      const toDocumentOffset = (offset: number) => Math.max(parentMetadata.startOffset, parentStart + offset);
+
+      for (const child of parentChildren) {
+        const metadata = child.metadata as ChunkMetadata;
+
+        // Offsets point into the loader's document, like those of the parent
+        children.push(new Document({
+          pageContent: child.pageContent,
+          metadata: {
+            ...metadata,
+            parentChunkId: parent.id,
+            startOffset: toDocumentOffset(metadata.startOffset),
+            endOffset: toDocumentOffset(metadata.endOffset)
+          }
+        }));
+      }
+    }
+
+    return { parents, children };
+  }
+}
+
+// Identical sections of one file share an ID, and so a stored parent
+const getParentChunkId = (parent: Document): string => crypto
+  .createHash('sha256')
+  .update(JSON.stringify([parent.metadata.fileId ?? parent.metadata.source, parent.metadata.headingPath, parent.pageContent]))
+  .digest('hex');
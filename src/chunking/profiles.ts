@@ -0,0 +1,215 @@
+/**
+ * Chunking Profiles
+ *
+ * This file is the one place where chunking is configured. A profile names
+ * a chunking strategy with its size and overlap; each file is chunked with
+ * the profile selected by its catalog tags, its folder or its MIME type, in
+ * that order of precedence. The profile applied to a file is recorded in the
+ * catalog, so files are re-chunked when their profile changes.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { AppliedChunkingProfile, FileMetadata } from '../types/file-catalog';
+import { embeddingModel, embeddings } from '../lib/embedding-model';
+import { Chunker, ChunkSizeUnit } from './types';
+import { StructureAwareChunker } from './structure-chunker';
+import { SemanticChunker } from './semantic-chunker';
+import { ParentChildChunker } from './parent-child';
+
+/**
+ * How a profile splits documents into chunks
+ */
+export type ChunkingStrategy = 'structure' | 'semantic';
+
+/**
+ * A named set of chunking settings
+ */
+export interface ChunkingProfile {
+  name: string;
+  strategy: ChunkingStrategy;
+  chunkSize: number;        // Maximum size of the chunks that are embedded, in `unit`
+  chunkOverlap: number;     // Overlap between chunks of the same section, in `unit`
+  parentChunkSize: number;  // Maximum size of the parent sections returned in place of matched chunks, in `unit`
+  unit: ChunkSizeUnit;
+  minChunkSize?: number;    // Semantic strategy: size a chunk must reach before a topic change ends it
+  breakpointPercentile?: number; // Semantic strategy: percentile of sentence distances that marks a topic change
+}
+
+export const DEFAULT_CHUNKING_PROFILE = 'default';
+
+/**
+ * The available profiles
+ */
+export const CHUNKING_PROFILES: Record<string, ChunkingProfile> = {
+  default: {
+    name: 'default',
+    strategy: 'structure',
+    chunkSize: 256,
+    chunkOverlap: 48,
+    parentChunkSize: 1024,
+    unit: 'tokens'
+  },
+  // Rows are self-contained records; overlap would only repeat them
+  spreadsheet: {
+    name: 'spreadsheet',
+    strategy: 'structure',
+    chunkSize: 384,
+    chunkOverlap: 0,
+    parentChunkSize: 1536,
+    unit: 'tokens'
+  },
+  // One slide rarely needs more than one chunk
+  slides: {
+    name: 'slides',
+    strategy: 'structure',
+    chunkSize: 320,
+    chunkOverlap: 0,
+    parentChunkSize: 1024,
+    unit: 'tokens'
+  },
+  // Clauses are long and refer back to each other
+  legal: {
+    name: 'legal',
+    strategy: 'structure',
+    chunkSize: 512,
+    chunkOverlap: 96,
+    parentChunkSize: 2048,
+    unit: 'tokens'
+  },
+  // Short turns, with enough overlap to keep a question with its answer
+  transcript: {
+    name: 'transcript',
+    strategy: 'structure',
+    chunkSize: 200,
+    chunkOverlap: 72,
+    parentChunkSize: 800,
+    unit: 'tokens'
+  },
+  // Long-form writing whose topics change without headings; sentences are embedded while chunking
+  prose: {
+    name: 'prose',
+    strategy: 'semantic',
+    chunkSize: 384,
+    chunkOverlap: 0,
+    parentChunkSize: 1536,
+    unit: 'tokens',
+    minChunkSize: 96,
+    breakpointPercentile: 90
+  }
+};
+
+// Profiles by folder, matched against the folder of the file in the knowledge
+// base (including folders inside archives) and any of its parent folders
+const PROFILES_BY_FOLDER: Record<string, string> = {
+  legal: 'legal',
+  contracts: 'legal',
+  transcripts: 'transcript'
+};
+
+// Profiles by MIME type
+const PROFILES_BY_MIME_TYPE: Record<string, string> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'spreadsheet',
+  'application/vnd.ms-excel': 'spreadsheet',
+  'text/csv': 'spreadsheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'slides',
+  'message/rfc822': 'transcript',
+  'application/mbox': 'transcript'
+};
+
+/**
+ * Select the chunking profile for a file. A catalog tag naming a profile
+ * wins over the file's folder, which wins over its MIME type.
+ * @param file Catalog entry of the file
+ * @returns The selected profile, or the default profile
+ */
+export const selectChunkingProfile = (file: Pick<FileMetadata, 'name' | 'mimeType' | 'tags'>): ChunkingProfile => {
+  const taggedProfile = file.tags?.find(tag => CHUNKING_PROFILES[tag]);
+  if (taggedProfile) {
+    return CHUNKING_PROFILES[taggedProfile];
+  }
+
+  // Check the innermost folder first
+  const folders = path.posix.dirname(file.name).split('/').filter(folder => folder && folder !== '.');
+  const folderProfile = folders.reverse()
+    .map(folder => PROFILES_BY_FOLDER[folder.toLowerCase()])
+    .find(Boolean);
+  if (folderProfile) {
+    return CHUNKING_PROFILES[folderProfile];
+  }
+
+  return CHUNKING_PROFILES[PROFILES_BY_MIME_TYPE[file.mimeType]] || CHUNKING_PROFILES[DEFAULT_CHUNKING_PROFILE];
+};
+
+/**
+ * Describe a profile for the catalog. The hash covers every setting, and
+ * the embedding model and token limit chunks are fitted to, so editing a
+ * profile or changing the model changes it as well as switching to another profile.
+ */
+export const getAppliedChunkingProfile = (profile: ChunkingProfile): AppliedChunkingProfile => {
+  const { name, ...profileSettings } = profile;
+  const settings = { ...profileSettings, embeddingModel: embeddingModel.name, maxTokens: embeddingModel.maxTokens };
+  const settingsHash = crypto.createHash('sha256')
+    .update(JSON.stringify(settings, Object.keys(settings).sort()))
+    .digest('hex')
+    .substring(0, 16);
+
+  return { name, settingsHash };
+};
+
+/**
+ * Check whether a processed file was chunked with settings other than
+ * those of the profile now selected for it
+ */
+export const isChunkingProfileOutdated = (file: FileMetadata): boolean => {
+  if (file.processingStatus !== 'success') return false;
+
+  const current = getAppliedChunkingProfile(selectChunkingProfile(file));
+  return file.chunkingProfile?.name !== current.name ||
+    file.chunkingProfile?.settingsHash !== current.settingsHash;
+};
+
+/**
+ * Create the chunker for a profile
+ * @param profile Chunking profile
+ * @param sentenceEmbeddings Embeddings the semantic strategy compares sentences with;
+ * the embedding model of the vector store by default
+ */
+export const createChunker = (
+  profile: ChunkingProfile,
+  sentenceEmbeddings: EmbeddingsInterface = embeddings
+): Chunker => {
+  switch (profile.strategy) {
+    case 'semantic':
+      return new SemanticChunker(sentenceEmbeddings, {
+        chunkSize: profile.chunkSize,
+        unit: profile.unit,
+        ...(profile.minChunkSize !== undefined && { minChunkSize: profile.minChunkSize }),
+        ...(profile.breakpointPercentile !== undefined && { breakpointPercentile: profile.breakpointPercentile })
+      });
+    case 'structure':
+    default:
+      return new StructureAwareChunker({
+        chunkSize: profile.chunkSize,
+        chunkOverlap: profile.chunkOverlap,
+        unit: profile.unit
+      });
+  }
+};
+
+/**
+ * Create the chunker for a profile that splits documents into parent
+ * sections along their structure, and parents into the profile's chunks
+ * @param profile Chunking profile
+ * @param sentenceEmbeddings Embeddings the semantic strategy compares sentences with
+ */
+export const createParentChildChunker = (
+  profile: ChunkingProfile,
+  sentenceEmbeddings: EmbeddingsInterface = embeddings
+): ParentChildChunker => {
+  return new ParentChildChunker(
+    new StructureAwareChunker({ chunkSize: profile.parentChunkSize, chunkOverlap: 0, unit: profile.unit }),
+    createChunker(profile, sentenceEmbeddings)
+  );
+};
@@ -0,0 +1,91 @@
+/**
+ * Semantic Chunker Tests
+ *
+ * The chunker is given fake embeddings that place each sentence by the topic
+ * words it contains, so where the topic changes is known in advance and the
+ * tests run offline. Sizes are measured in characters, which needs no tokenizer.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Document } from '@langchain/core/documents';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { CHUNKING_PROFILES, ChunkingProfile, createChunker } from './profiles';
+
+const CAT_SENTENCES = [
+  'The cat sleeps on the warm windowsill.',
+  'Every morning the cat asks for breakfast.',
+  'A cat grooms itself after each meal.',
+  'The old cat chases the red ball.',
+  'At night the cat watches the garden.'
+];
+
+const SHIP_SENTENCES = [
+  'The ship left the harbour at dawn.',
+  'A storm forced the ship to slow down.',
+  'The crew checked the ship for leaks.',
+  'Our ship reached the island by noon.',
+  'The captain steered the ship home.',
+  'Gulls followed the ship into port.'
+];
+
+const TEXT = [...CAT_SENTENCES, ...SHIP_SENTENCES].join(' ');
+
+// Where the second topic starts in the text
+const TOPIC_CHANGE = TEXT.indexOf(SHIP_SENTENCES[0]);
+
+/**
+ * Embed a text as the number of times it mentions each topic
+ */
+const embedTopics = (text: string): number[] => {
+  return [/\bcat\b/g, /\bship\b/g].map(topic => (text.match(topic) || []).length);
+};
+
+const fakeEmbeddings: EmbeddingsInterface = {
+  embedDocuments: async texts => texts.map(embedTopics),
+  embedQuery: async text => embedTopics(text)
+};
+
+const createProfile = (overrides: Partial<ChunkingProfile>): ChunkingProfile => ({
+  ...CHUNKING_PROFILES.prose,
+  unit: 'characters',
+  ...overrides
+});
+
+const splitText = (profile: ChunkingProfile): Promise<Document[]> => {
+  return createChunker(profile, fakeEmbeddings).splitDocument(new Document({ pageContent: TEXT, metadata: { source: 'test' } }));
+};
+
+describe('SemanticChunker', () => {
+  it('cuts where the topic changes', async () => {
+    const chunks = await splitText(createProfile({ chunkSize: 1000, minChunkSize: 50 }));
+
+    assert.deepEqual(chunks.map(chunk => chunk.pageContent), [
+      CAT_SENTENCES.join(' '),
+      SHIP_SENTENCES.join(' ')
+    ]);
+    assert.equal(chunks[1].metadata.startOffset, TOPIC_CHANGE);
+  });
+
+  it('does not cut at a topic change before the chunk reaches its minimum size', async () => {
+    const minChunkSize = TOPIC_CHANGE + 50;
+    const chunks = await splitText(createProfile({ chunkSize: 1000, minChunkSize }));
+
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0].pageContent, TEXT);
+  });
+
+  it('keeps chunks within the maximum size and still cuts at the topic change', async () => {
+    // Two sentences fit in a chunk, so the size limit alone would put the
+    // last sentence about cats in a chunk with the first about ships
+    const chunkSize = 90;
+    const chunks = await splitText(createProfile({ chunkSize, minChunkSize: 30 }));
+
+    assert.ok(chunks.length > 2);
+    chunks.forEach(chunk => {
+      assert.ok(chunk.pageContent.length <= chunkSize, `Chunk of ${chunk.pageContent.length} characters: ${chunk.pageContent}`);
+    });
+    assert.ok(chunks.some(chunk => chunk.metadata.startOffset === TOPIC_CHANGE));
+    assert.ok(chunks.every(chunk => !/\bcat\b/.test(chunk.pageContent) || !/\bship\b/.test(chunk.pageContent)));
+  });
+});
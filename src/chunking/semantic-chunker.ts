@@ -0,0 +1,225 @@
+/**
+ * Semantic Chunker
+ *
+ * This chunker cuts where the topic changes instead of where a size limit
+ * is reached. Each sentence is embedded together with its neighbours, and
+ * a chunk ends where the distance between adjacent sentences is among the
+ * largest in the document, as long as the chunk has reached its minimum
+ * size; chunks are also cut before they outgrow the maximum size. As with
+ * the structure-aware chunker, chunks never cross a heading, list items,
+ * table rows and code are kept whole where they fit, code documents are
+ * passed through as they were split by their loader, and tables that
+ * loaders emit as documents of their own are split into groups of rows.
+ */
+
+import { Document } from '@langchain/core/documents';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { isCodeDocument } from '../loaders/code-loader';
+import { embeddingModel } from '../lib/embedding-model';
+import { Chunker, SemanticChunkingOptions } from './types';
+import { MeasureRange, TextRange, parseBlocks, splitBlock, splitSentences } from './blocks';
+import { HeadingTracker, createChunkDocuments, createMeasures, fitToTokenLimit } from './base-chunker';
+import { StructureAwareChunker } from './structure-chunker';
+import { getTokenCounter } from './tokenizer';
+import { isTableDocument, splitTableDocument } from './tables';
+
+const DEFAULT_SEMANTIC_CHUNKING_OPTIONS: SemanticChunkingOptions = {
+  chunkSize: 384,
+  minChunkSize: 96,
+  breakpointPercentile: 90,
+  unit: 'tokens',
+  maxTokens: embeddingModel.maxTokens
+};
+
+// Sentences on either side included when embedding a sentence, which smooths out short sentences
+const SENTENCE_WINDOW = 1;
+
+/**
+ * A sentence, or a heading, list item, table or code block kept whole
+ */
+interface Segment extends TextRange {
+  headingPath: string[];
+  isHeading: boolean;
+}
+
+export class SemanticChunker implements Chunker {
+  private options: SemanticChunkingOptions;
+  private embeddings: EmbeddingsInterface;
+
+  /**
+   * Create a new semantic chunker
+   * @param embeddings Embeddings used to compare sentences
+   * @param options Optional overrides for the size bounds, unit and breakpoint percentile
+   */
+  constructor(embeddings: EmbeddingsInterface, options: Partial<SemanticChunkingOptions> = {}) {
+    this.embeddings = embeddings;
+    this.options = { ...DEFAULT_SEMANTIC_CHUNKING_OPTIONS, ...options };
+  }
+
+  /**
+   * Split a loaded document into chunks at changes of topic
+   * @param doc Document produced by a loader
+   * @param firstChunkIndex Index given to the first chunk
+   * @returns Promise resolving to the chunks, in document order
+   */
+  async splitDocument(doc: Document, firstChunkIndex = 0): Promise<Document[]> {
+    const tableChunks = isTableDocument(doc) ? await splitTableDocument(doc, firstChunkIndex, this.options) : null;
+    if (tableChunks) return tableChunks;
+
+    // Code documents are already split on declaration boundaries
+    if (isCodeDocument(doc)) {
+      const { chunkSize, unit, maxTokens } = this.options;
+      return new StructureAwareChunker({ chunkSize, chunkOverlap: 0, unit, maxTokens }).splitDocument(doc, firstChunkIndex);
+    }
+
+    const text = doc.pageContent;
+    const tokenizer = await getTokenCounter(this.options.unit);
+    const { countTokens, measure } = createMeasures(text, this.options.unit, tokenizer);
+
+    const segments = this.splitSegments(text, doc.metadata.headingPath, measure);
+    const breakpoints = await this.findBreakpoints(text, segments);
+    const ranges = this.groupSegments(segments, breakpoints, measure)
+      .map(range => ({ ...range, headingPath: range.headingPath.join(' > ') || undefined }));
+
+    const tokenLimit = this.options.maxTokens - tokenizer.specialTokenCount;
+    return createChunkDocuments(doc, fitToTokenLimit(text, ranges, countTokens, tokenLimit), firstChunkIndex);
+  }
+
+  /**
+   * Split a text into segments no larger than the chunk size: sentences of
+   * paragraphs, and headings, list items, tables and code blocks
+   */
+  private splitSegments(text: string, documentHeadingPath: string | undefined, measure: MeasureRange): Segment[] {
+    const headings = new HeadingTracker(documentHeadingPath);
+    const segments: Segment[] = [];
+
+    for (const block of parseBlocks(text)) {
+      headings.visit(block);
+      const headingPath = headings.path;
+
+      if (block.type === 'heading') {
+        segments.push({ start: block.start, end: block.end, headingPath, isHeading: true });
+        continue;
+      }
+
+      const pieces = block.type === 'paragraph' ? splitSentences(text, block) : [block];
+      pieces
+        .flatMap(piece => splitBlock(text, { type: block.type, ...piece }, this.options.chunkSize, measure))
+        .forEach(piece => segments.push({ ...piece, headingPath, isHeading: false }));
+    }
+
+    return segments;
+  }
+
+  /**
+   * Find where the topic changes: between adjacent sentences of a section
+   * whose distance is above the configured percentile of all such distances.
+   * Headings already end chunks, so sentences are only compared within sections.
+   * @returns Indexes of the segments that start a new topic
+   */
+  private async findBreakpoints(text: string, segments: Segment[]): Promise<Set<number>> {
+    const sections: number[][] = [[]];
+    segments.forEach((segment, index) => {
+      if (segment.isHeading) {
+        sections.push([]);
+      } else {
+        sections[sections.length - 1].push(index);
+      }
+    });
+
+    const comparable = sections.filter(section => section.length > 1);
+    const pairs = comparable.flatMap(section => section.slice(1).map((index, position) => [section[position], index]));
+    if (pairs.length === 0) return new Set();
+
+    const windows = new Map<number, string>();
+    comparable.forEach(section => section.forEach((index, position) => windows.set(index, section
+      .slice(Math.max(0, position - SENTENCE_WINDOW), position + SENTENCE_WINDOW + 1)
+      .map(neighbour => text.substring(segments[neighbour].start, segments[neighbour].end))
+      .join(' '))));
+
+    const windowIndexes = Array.from(windows.keys());
+    const vectors = await this.embeddings.embedDocuments(Array.from(windows.values()));
+    const vectorsBySegment = new Map(windowIndexes.map((index, position) => [index, vectors[position]]));
+
+    const distances = pairs.map(([previous, next]) =>
+      1 - cosineSimilarity(vectorsBySegment.get(previous)!, vectorsBySegment.get(next)!));
+    const threshold = percentile(distances, this.options.breakpointPercentile);
+
+    return new Set(pairs.filter((_, position) => distances[position] > threshold).map(([, next]) => next));
+  }
+
+  /**
+   * Group segments into chunk ranges, cutting at headings, at topic changes
+   * once a chunk reaches the minimum size, and before it exceeds the maximum
+   */
+  private groupSegments(
+    segments: Segment[],
+    breakpoints: Set<number>,
+    measure: MeasureRange
+  ): (TextRange & { headingPath: string[] })[] {
+    const { chunkSize, minChunkSize } = this.options;
+    const chunks: (TextRange & { headingPath: string[] })[] = [];
+    let open: (TextRange & { headingPath: string[]; hasBody: boolean }) | null = null;
+
+    const emit = () => {
+      if (open) chunks.push({ start: open.start, end: open.end, headingPath: open.headingPath });
+      open = null;
+    };
+
+    segments.forEach((segment, index) => {
+      const current = open as (TextRange & { headingPath: string[]; hasBody: boolean }) | null;
+
+      if (segment.isHeading) {
+        // Consecutive headings share a chunk with the content that follows them
+        if (current && !current.hasBody) {
+          current.end = segment.end;
+          current.headingPath = segment.headingPath;
+        } else {
+          emit();
+          open = { start: segment.start, end: segment.end, headingPath: segment.headingPath, hasBody: false };
+        }
+        return;
+      }
+
+      if (current && current.hasBody) {
+        const isTopicChange = breakpoints.has(index) && measure(current) >= minChunkSize;
+        if (isTopicChange || measure({ start: current.start, end: segment.end }) > chunkSize) {
+          emit();
+        }
+      }
+
+      const next = open as (TextRange & { headingPath: string[]; hasBody: boolean }) | null;
+      if (next) {
+        // A heading stays with its first content
+        next.end = segment.end;
+        next.hasBody = true;
+      } else {
+        open = { start: segment.start, end: segment.end, headingPath: segment.headingPath, hasBody: true };
+      }
+    });
+
+    emit();
+    return chunks;
+  }
+}
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// Percentile with linear interpolation between the closest ranks
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
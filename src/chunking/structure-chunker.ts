@@ -0,0 +1,170 @@
+/**
+ * Structure-Aware Chunker
+ *
+ * This chunker splits documents along their structure instead of at fixed
+ * character counts. Chunks never cross a heading, so each chunk belongs to
+ * one section, and blocks (paragraphs, list items, table rows, code) are
+ * only split when they do not fit in a chunk on their own. Since loaders
+ * emit one document per page, slide or section, chunks never cross those
+ * boundaries either. Overlap is only added between chunks of the same
+ * section, starting at a sentence or line boundary. Sizes are measured in
+ * characters or in tokens of the embedding model, and chunks the model
+ * could not read in full are split further whatever the unit. Tables that
+ * loaders emit as documents of their own are split into groups of rows.
+ */
+
+import { Document } from '@langchain/core/documents';
+import { isCodeDocument } from '../loaders/code-loader';
+import { embeddingModel } from '../lib/embedding-model';
+import { Chunker, ChunkingOptions } from './types';
+import { MeasureRange, TextRange, findRangeStart, parseBlocks, splitBlock } from './blocks';
+import { HeadingTracker, createChunkDocuments, createMeasures, fitToTokenLimit } from './base-chunker';
+import { getTokenCounter } from './tokenizer';
+import { isTableDocument, splitTableDocument } from './tables';
+
+const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: 256,
+  chunkOverlap: 48,
+  unit: 'tokens',
+  maxTokens: embeddingModel.maxTokens
+};
+
+// Where overlap may start: after the end of a sentence or a line
+const OVERLAP_BOUNDARY = /[.!?]["')\]]*\s+|\n+/g;
+
+/**
+ * A chunk being assembled
+ */
+interface OpenChunk extends TextRange {
+  headingPath: string[];
+  hasBody: boolean;         // Holds content other than headings and overlap
+  isOverlap: boolean;       // Starts with text repeated from the previous chunk
+}
+
+export class StructureAwareChunker implements Chunker {
+  private options: ChunkingOptions;
+
+  /**
+   * Create a new structure-aware chunker
+   * @param options Optional overrides for the chunk size, overlap and unit
+   */
+  constructor(options: Partial<ChunkingOptions> = {}) {
+    this.options = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+  }
+
+  /**
+   * Split a loaded document into chunks along its structure
+   * @param doc Document produced by a loader
+   * @param firstChunkIndex Index given to the first chunk
+   * @returns Promise resolving to the chunks, in document order
+   */
+  async splitDocument(doc: Document, firstChunkIndex = 0): Promise<Document[]> {
+    const tableChunks = isTableDocument(doc) ? await splitTableDocument(doc, firstChunkIndex, this.options) : null;
+    if (tableChunks) return tableChunks;
+
+    const text = doc.pageContent;
+    const tokenizer = await getTokenCounter(this.options.unit);
+    const { countTokens, measure } = createMeasures(text, this.options.unit, tokenizer);
+
+    // Code documents are already split on declaration boundaries
+    const isCode = isCodeDocument(doc);
+    const ranges = isCode
+      ? [{ start: 0, end: text.length, headingPath: doc.metadata.headingPath as string | undefined }]
+      : this.splitText(text, doc.metadata.headingPath, measure)
+        .map(range => ({ ...range, headingPath: range.headingPath.join(' > ') || undefined }));
+
+    const tokenLimit = this.options.maxTokens - tokenizer.specialTokenCount;
+    const chunks = fitToTokenLimit(text, ranges, countTokens, tokenLimit, isCode);
+    return createChunkDocuments(doc, chunks, firstChunkIndex);
+  }
+
+  /**
+   * Group the blocks of a text into chunk ranges
+   * @param text Document text
+   * @param documentHeadingPath Heading path of the document, set by loaders that split by section
+   * @param measure How chunk sizes are measured
+   */
+  private splitText(
+    text: string,
+    documentHeadingPath: string | undefined,
+    measure: MeasureRange
+  ): (TextRange & { headingPath: string[] })[] {
+    const { chunkSize } = this.options;
+    const headings = new HeadingTracker(documentHeadingPath);
+    const chunks: (TextRange & { headingPath: string[] })[] = [];
+    let open: OpenChunk | null = null;
+
+    const emit = () => {
+      if (open && (open.hasBody || !open.isOverlap)) {
+        chunks.push({ start: open.start, end: open.end, headingPath: open.headingPath });
+      }
+      open = null;
+    };
+
+    const addPiece = (piece: TextRange, headingPath: string[]) => {
+      const current = open as OpenChunk | null;
+
+      if (!current) {
+        open = { ...piece, headingPath, hasBody: true, isOverlap: false };
+      } else if (measure({ start: current.start, end: piece.end }) <= chunkSize) {
+        current.end = piece.end;
+        current.hasBody = true;
+      } else if (!current.hasBody) {
+        // Overlap is dropped when it leaves no room; a heading stays with its first content
+        open = current.isOverlap
+          ? { ...piece, headingPath, hasBody: true, isOverlap: false }
+          : { ...current, end: piece.end, hasBody: true };
+      } else {
+        const overlapStart = this.findOverlapStart(text, current, measure);
+        emit();
+        if (overlapStart !== null) {
+          open = { start: overlapStart, end: current.end, headingPath, hasBody: false, isOverlap: true };
+        }
+        addPiece(piece, headingPath);
+      }
+    };
+
+    for (const block of parseBlocks(text)) {
+      headings.visit(block);
+      const headingPath = headings.path;
+
+      if (block.type === 'heading') {
+        const current = open as OpenChunk | null;
+
+        // Consecutive headings share a chunk with the content that follows them
+        if (current && !current.hasBody && !current.isOverlap) {
+          open = { ...current, end: block.end, headingPath };
+        } else {
+          emit();
+          open = { start: block.start, end: block.end, headingPath, hasBody: false, isOverlap: false };
+        }
+        continue;
+      }
+
+      splitBlock(text, block, chunkSize, measure).forEach(piece => addPiece(piece, headingPath));
+    }
+
+    emit();
+    return chunks;
+  }
+
+  /**
+   * Find where the overlap carried into the next chunk starts: the first
+   * sentence or line boundary within the last chunkOverlap characters or tokens
+   * @returns The offset, or null if there is no suitable boundary
+   */
+  private findOverlapStart(text: string, chunk: OpenChunk, measure: MeasureRange): number | null {
+    const { chunkOverlap } = this.options;
+    if (chunkOverlap <= 0) return null;
+
+    const windowStart = Math.max(chunk.start + 1, findRangeStart(chunk, chunkOverlap, measure));
+    if (text[windowStart - 1] === '\n') return windowStart;
+
+    const pattern = new RegExp(OVERLAP_BOUNDARY.source, 'g');
+    const match = pattern.exec(text.substring(windowStart, chunk.end));
+    if (!match) return null;
+
+    const overlapStart = windowStart + match.index + match[0].length;
+    return overlapStart < chunk.end ? overlapStart : null;
+  }
+}
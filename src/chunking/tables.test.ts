@@ -0,0 +1,47 @@
+/**
+ * Table Chunking Tests
+ *
+ * Sizes are measured in characters, whose token counts are estimated
+ * without the tokenizer, so the tests run offline.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Document } from '@langchain/core/documents';
+import { splitTableDocument } from './tables';
+import { getTokenCounter } from './tokenizer';
+
+const PREFIX = '## Prices\n\n| Item | Notes |\n| --- | --- |';
+
+const LONG_NOTE = Array.from({ length: 60 }, (_, index) => `note${index}`).join(' ');
+
+const createTable = (rows: string[]): Document => new Document({
+  pageContent: [PREFIX, ...rows].join('\n'),
+  metadata: { source: 'test', contentType: 'table' }
+});
+
+describe('splitTableDocument', () => {
+  it('keeps a table that fits whole', async () => {
+    const table = createTable(['| Tea | Green |', '| Coffee | Black |']);
+    const chunks = await splitTableDocument(table, 0, { chunkSize: 1000, unit: 'characters', maxTokens: 512 });
+
+    assert.deepEqual(chunks?.map(chunk => chunk.pageContent), [table.pageContent]);
+  });
+
+  it('splits a row holding more tokens than the model reads, repeating the header', async () => {
+    const maxTokens = 120;
+    const rows = ['| Tea | Green |', `| Cake | ${LONG_NOTE} |`, '| Coffee | Black |'];
+    const chunks = await splitTableDocument(createTable(rows), 0, { chunkSize: 1000, unit: 'characters', maxTokens });
+    const { specialTokenCount } = await getTokenCounter('characters');
+
+    assert.ok(chunks && chunks.length > 2);
+    chunks.forEach(chunk => {
+      assert.ok(chunk.metadata.tokenCount <= maxTokens - specialTokenCount, `Chunk of ${chunk.metadata.tokenCount} tokens`);
+      assert.ok(chunk.pageContent.startsWith(`${PREFIX}\n`));
+    });
+
+    // Every word of the long row is kept, in order
+    const rowsText = chunks.map(chunk => chunk.pageContent.substring(PREFIX.length + 1)).join(' ');
+    assert.equal(rowsText.replace(/\s+/g, ' '), rows.join(' ').replace(/\s+/g, ' '));
+  });
+});
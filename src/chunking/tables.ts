@@ -0,0 +1,116 @@
+/**
+ * Table Chunking
+ *
+ * Loaders emit each table as a document of its own, tagged with the
+ * 'table' content type: a Markdown table, preceded by the heading it sits
+ * under and its caption. A table that fits in a chunk is kept whole. Larger
+ * tables are split into groups of whole rows, and every piece repeats the
+ * heading, caption and header row, so it can be read and retrieved on its
+ * own. Pieces holding more tokens than the embedding model reads are split
+ * further, at row and then word boundaries, like any other chunk. The
+ * offsets of a piece cover its rows only.
+ */
+
+import { Document } from '@langchain/core/documents';
+import { ChunkingOptions, ChunkMetadata } from './types';
+import { TextRange } from './blocks';
+import { createMeasures, fitToTokenLimit } from './base-chunker';
+import { getTokenCounter } from './tokenizer';
+
+const TABLE_ROW_PATTERN = /^\s*\|/;
+const SEPARATOR_ROW_PATTERN = /^\s*\|?\s*:?-{3,}/;
+
+/**
+ * Check whether a document holds a table emitted by a loader
+ */
+export const isTableDocument = (doc: Document): boolean => doc.metadata.contentType === 'table';
+
+/**
+ * Split a table document into chunks of whole rows
+ * @param doc Table document produced by a loader
+ * @param firstChunkIndex Index given to the first chunk
+ * @param options Chunk size, the unit it is measured in and the tokens the model reads
+ * @returns Promise resolving to the chunks, or null if the document holds no Markdown table
+ */
+export const splitTableDocument = async (
+  doc: Document,
+  firstChunkIndex: number,
+  { chunkSize, unit, maxTokens }: Pick<ChunkingOptions, 'chunkSize' | 'unit' | 'maxTokens'>
+): Promise<Document[] | null> => {
+  const text = doc.pageContent;
+  const lines = splitLines(text);
+  const headerIndex = lines.findIndex(line => TABLE_ROW_PATTERN.test(line.text));
+  if (headerIndex === -1) return null;
+
+  const tokenizer = await getTokenCounter(unit);
+  const { countTokens, measure } = createMeasures(text, unit, tokenizer);
+  const tokenLimit = maxTokens - tokenizer.specialTokenCount;
+
+  const createChunk = (pageContent: string, range: TextRange, index: number) => {
+    const metadata: ChunkMetadata = {
+      ...(doc.metadata as ChunkMetadata),
+      chunkIndex: firstChunkIndex + index,
+      startOffset: range.start,
+      endOffset: range.end,
+      tokenCount: tokenizer.countTokens(pageContent)
+    };
+    return new Document({ pageContent, metadata });
+  };
+
+  const hasSeparator = SEPARATOR_ROW_PATTERN.test(lines[headerIndex + 1]?.text || '');
+  const prefixRange = { start: 0, end: lines[headerIndex + (hasSeparator ? 1 : 0)].end };
+  const prefix = text.substring(prefixRange.start, prefixRange.end);
+  const rows = lines.slice(headerIndex + (hasSeparator ? 2 : 1)).filter(line => line.text.trim());
+  const wholeTable = { start: 0, end: text.length };
+
+  // A table without rows has nothing to repeat its header for
+  if (rows.length === 0) {
+    return fitToTokenLimit(text, [wholeTable], countTokens, tokenLimit, true)
+      .map((range, index) => createChunk(text.substring(range.start, range.end), range, index));
+  }
+
+  if (measure(wholeTable) <= chunkSize && countTokens(wholeTable) <= tokenLimit) {
+    return [createChunk(text, wholeTable, 0)];
+  }
+
+  // Rows are measured one at a time, so a large table is not measured again for every row
+  const prefixSize = measure(prefixRange);
+  const groups: (TextRange & { size: number })[] = [];
+  for (const row of rows) {
+    const rowSize = measure(row);
+    const group = groups[groups.length - 1];
+    if (group && group.size + rowSize <= chunkSize) {
+      group.end = row.end;
+      group.size += rowSize;
+    } else {
+      groups.push({ start: row.start, end: row.end, size: prefixSize + rowSize });
+    }
+  }
+
+  // The rows of a piece get the tokens its repeated heading and header row leave
+  // over. Headers taking more than half the model's input are not repeated,
+  // since every piece would then hold only a few rows
+  const prefixTokens = countTokens(prefixRange);
+  const repeatsPrefix = prefixTokens <= tokenLimit / 2;
+  const pieces = fitToTokenLimit(
+    text,
+    groups.map(({ start, end }) => ({ start, end })),
+    countTokens,
+    repeatsPrefix ? tokenLimit - prefixTokens : tokenLimit,
+    true
+  );
+
+  return pieces.map((piece, index) => {
+    const rowsText = text.substring(piece.start, piece.end);
+    return createChunk(repeatsPrefix ? `${prefix}\n${rowsText}` : rowsText, piece, index);
+  });
+};
+
+const splitLines = (text: string): (TextRange & { text: string })[] => {
+  let offset = 0;
+  return text.split('\n').map(line => {
+    const range = { start: offset, end: offset + line.length, text: line };
+    offset = range.end + 1;
+    return range;
+  });
+};
@@ -0,0 +1,113 @@
+/**
+ * Embedding Tokenizer
+ *
+ * This file loads the tokenizer of the embedding model, so chunks can be
+ * measured in the tokens the model actually reads. Tokenizing runs locally,
+ * from the tokenizer files in EMBEDDING_TOKENIZER_PATH; they are never
+ * downloaded. Chunks measured in characters only need their tokens
+ * estimated, so they never load the tokenizer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Tokenizer } from '@huggingface/tokenizers';
+import { embeddingModel } from '../lib/embedding-model';
+import type { ChunkSizeUnit } from './types';
+
+const TOKENIZER_FILES = ['tokenizer.json', 'tokenizer_config.json'];
+
+/**
+ * Error for tokenizer files that are not available locally
+ */
+export class TokenizerConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenizerConfigurationError';
+  }
+}
+
+/**
+ * Counts tokens the way the embedding model does
+ */
+export interface TokenCounter {
+  /**
+   * Count the tokens of a text, without the special tokens added around it
+   */
+  countTokens(text: string): number;
+  specialTokenCount: number;  // Special tokens the model adds to every input, e.g. [CLS] and [SEP]
+}
+
+/**
+ * Estimates tokens without the tokenizer, never counting fewer than the
+ * model reads: a WordPiece or byte-level token covers at least one byte of
+ * text outside whitespace, so that byte count is an upper bound
+ */
+const estimatingTokenCounter: TokenCounter = {
+  countTokens: text => Buffer.byteLength(text.replace(/\s+/g, ''), 'utf8'),
+  specialTokenCount: 2 // [CLS] and [SEP]
+};
+
+let tokenizerPromise: Promise<TokenCounter> | null = null;
+
+/**
+ * Get the token counter for chunks measured in a unit: the embedding
+ * model's tokenizer for tokens, and an estimate for characters
+ */
+export const getTokenCounter = (unit: ChunkSizeUnit): Promise<TokenCounter> => {
+  return unit === 'tokens' ? getEmbeddingTokenizer() : Promise.resolve(estimatingTokenCounter);
+};
+
+/**
+ * Get the tokenizer of the embedding model, loading it on first use
+ * @returns Promise resolving to the token counter
+ */
+export const getEmbeddingTokenizer = (): Promise<TokenCounter> => {
+  if (!tokenizerPromise) {
+    tokenizerPromise = loadTokenizer().catch(error => {
+      // Allow the next call to try again
+      tokenizerPromise = null;
+      throw error;
+    });
+  }
+  return tokenizerPromise;
+};
+
+const loadTokenizer = async (): Promise<TokenCounter> => {
+  const directory = resolveTokenizerFiles();
+
+  const [tokenizerJson, tokenizerConfig] = TOKENIZER_FILES.map(file =>
+    JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')));
+  const tokenizer = new Tokenizer(tokenizerJson, tokenizerConfig);
+
+  return {
+    countTokens: text => tokenizer.encode(text, { add_special_tokens: false }).ids.length,
+    specialTokenCount: tokenizer.encode('', { add_special_tokens: true }).ids.length
+  };
+};
+
+/**
+ * Find the local tokenizer files of the embedding model
+ * @returns The directory holding the files
+ * @throws TokenizerConfigurationError if the files are not there
+ */
+const resolveTokenizerFiles = (): string => {
+  const directory = process.env.EMBEDDING_TOKENIZER_PATH;
+  const source = `https://huggingface.co/${embeddingModel.tokenizerRepository}`;
+
+  if (!directory) {
+    throw new TokenizerConfigurationError(
+      `No tokenizer for ${embeddingModel.name}: set EMBEDDING_TOKENIZER_PATH to a directory with ` +
+      `${TOKENIZER_FILES.join(' and ')} from ${source}, or measure chunks in characters`
+    );
+  }
+
+  const missingFiles = TOKENIZER_FILES.filter(file => !fs.existsSync(path.join(directory, file)));
+  if (missingFiles.length > 0) {
+    throw new TokenizerConfigurationError(
+      `EMBEDDING_TOKENIZER_PATH (${directory}) is missing ${missingFiles.join(' and ')} ` +
+      `of the ${embeddingModel.name} tokenizer, from ${source}`
+    );
+  }
+
+  return directory;
+};
@@ -0,0 +1,62 @@
+/**
+ * Chunking Types
+ *
+ * This file defines the interface implemented by chunkers, which split
+ * loaded documents into the chunks that are embedded, and the metadata
+ * every chunk carries.
+ */
+
+import { Document } from '@langchain/core/documents';
+import { BaseDocumentMetadata } from '../loaders/base-loader';
+
+/**
+ * Interface for chunkers
+ */
+export interface Chunker {
+  /**
+   * Split a loaded document into chunks
+   * @param doc Document produced by a loader
+   * @param firstChunkIndex Index given to the first chunk, so indexes run
+   * on across the documents of a file
+   * @returns Promise resolving to the chunks, in document order
+   */
+  splitDocument(doc: Document, firstChunkIndex?: number): Promise<Document[]>;
+}
+
+/**
+ * The unit chunk sizes and overlaps are measured in; tokens are counted
+ * with the embedding model's tokenizer
+ */
+export type ChunkSizeUnit = 'characters' | 'tokens';
+
+/**
+ * Options for chunkers
+ */
+export interface ChunkingOptions {
+  chunkSize: number;        // Maximum chunk size, in `unit`
+  chunkOverlap: number;     // Text repeated from the previous chunk of the same section, in `unit`
+  unit: ChunkSizeUnit;
+  maxTokens: number;        // Tokens the embedding model reads; larger chunks are split further
+}
+
+/**
+ * Options for the semantic chunker, which cuts where the topic changes
+ * instead of carrying overlap between chunks
+ */
+export interface SemanticChunkingOptions extends Omit<ChunkingOptions, 'chunkOverlap'> {
+  minChunkSize: number;     // Chunks are only cut at a topic change once this large, in `unit`
+  breakpointPercentile: number; // Percentile of adjacent-sentence distances above which the topic changes
+}
+
+/**
+ * Metadata for chunks
+ */
+export interface ChunkMetadata extends BaseDocumentMetadata {
+  chunkIndex: number;       // Position of the chunk among the chunks of its file
+  startOffset: number;      // Offset of the chunk's first character in the source document text
+  endOffset: number;        // Offset after the chunk's last character in the source document text;
+                            // pieces of a split table also repeat its header, outside these offsets
+  tokenCount: number;       // Tokens of the chunk text, as counted by the embedding model's tokenizer;
+                            // an upper bound estimate for chunks measured in characters
+  parentChunkId?: string;   // ID of the parent section a child chunk was split from
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Badge } from './ui/badge';
+import { Loader2 } from 'lucide-react';
+
+interface ProcessingRun {
+  id: string;
+  trigger?: 'scheduled' | 'dashboard' | 'cli';
+  startedAt: string;
+  durationMs?: number;
+  status: 'running' | 'success' | 'error';
+  loader?: string;
+  chunkingProfile?: string;
+  embeddingModel?: string;
+  chunkCount?: number;
+  errorMessage?: string;
+}
+
+// Processing history of a file, newest run first
+export function FileHistory({ fileId }: { fileId: string }) {
+  const [runs, setRuns] = useState<ProcessingRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/file-catalog/${fileId}/history`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch processing history');
+        }
+        const data = await response.json();
+        setRuns(data.runs);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        console.error('Error fetching processing history:', err);
+      }
+    };
+    fetchHistory();
+  }, [fileId]);
+
+  // Format a duration in milliseconds
+  const formatDuration = (ms?: number): string => {
+    if (ms === undefined) return '-';
+    if (ms < 1000) return ms + ' ms';
+    if (ms < 60 * 1000) return (ms / 1000).toFixed(1) + ' s';
+    return (ms / (60 * 1000)).toFixed(1) + ' min';
+  };
+
+  const getStatusBadge = (status: ProcessingRun['status']) => {
+    switch (status) {
+      case 'running':
+        return <Badge variant="outline" className="bg-yellow-100 text-yellow-800">Running</Badge>;
+      case 'success':
+        return <Badge variant="outline" className="bg-green-100 text-green-800">Success</Badge>;
+      case 'error':
+        return <Badge variant="outline" className="bg-red-100 text-red-800">Error</Badge>;
+      default:
+        return <Badge variant="outline">Unknown</Badge>;
+    }
+  };
+
+  if (error) {
+    return <div className="text-xs text-red-500">{error}</div>;
+  }
+
+  if (!runs) {
+    return <Loader2 className="w-4 h-4 animate-spin text-gray-400" />;
+  }
+
+  if (runs.length === 0) {
+    return <div className="text-xs text-gray-500">This file has not been processed yet.</div>;
+  }
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 uppercase tracking-wider">
+          <th className="pr-4 py-1 font-medium">Started</th>
+          <th className="pr-4 py-1 font-medium">Trigger</th>
+          <th className="pr-4 py-1 font-medium">Status</th>
+          <th className="pr-4 py-1 font-medium">Duration</th>
+          <th className="pr-4 py-1 font-medium">Loader</th>
+          <th className="pr-4 py-1 font-medium">Profile</th>
+          <th className="pr-4 py-1 font-medium">Model</th>
+          <th className="pr-4 py-1 font-medium">Chunks</th>
+        </tr>
+      </thead>
+      <tbody className="text-gray-700">
+        {runs.map(run => (
+          <tr key={run.id} className="align-top">
+            <td className="pr-4 py-1 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+            <td className="pr-4 py-1">{run.trigger || '-'}</td>
+            <td className="pr-4 py-1">
+              {getStatusBadge(run.status)}
+              {run.errorMessage && (
+                <div className="text-red-500 mt-1">{run.errorMessage}</div>
+              )}
+            </td>
+            <td className="pr-4 py-1 whitespace-nowrap">{formatDuration(run.durationMs)}</td>
+            <td className="pr-4 py-1">{run.loader || '-'}</td>
+            <td className="pr-4 py-1">{run.chunkingProfile || '-'}</td>
+            <td className="pr-4 py-1">{run.embeddingModel || '-'}</td>
+            <td className="pr-4 py-1">{run.chunkCount ?? '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
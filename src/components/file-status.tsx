@@ -1,11 +1,12 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, Fragment } from 'react';
 import { generateEmbeddings } from '@/actions/knowledgebase-embeddings';
+import { FileHistory } from './file-history';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { Loader2, RefreshCw, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { Loader2, RefreshCw, CheckCircle, AlertCircle, Clock, History, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface FileMetadata {
   id: string;
@@ -16,24 +17,34 @@ interface FileMetadata {
   sourceLocation: 'google-drive' | 'manual-upload';
   processingStatus: 'pending' | 'success' | 'error';
   errorMessage?: string;
+  warnings?: string[];
   processedAt?: string;
   chunkCount: number;
 }
 
-interface FileCatalog {
+interface CatalogPage {
   lastUpdated: string;
-  files: Record<string, FileMetadata>;
+  total: number;
+  page: number;
+  pageSize: number;
+  statusCounts: Record<FileMetadata['processingStatus'], number>;
+  files: FileMetadata[];
 }
 
+// Files shown per page
+const PAGE_SIZE = 50;
+
 export function FileStatus() {
   const [loading, setLoading] = useState(false);
-  const [catalog, setCatalog] = useState<FileCatalog | null>(null);
+  const [catalog, setCatalog] = useState<CatalogPage | null>(null);
+  const [page, setPage] = useState(1);
   const [error, setError] = useState<string | null>(null);
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
   
-  // Function to fetch the file catalog
-  const fetchCatalog = async () => {
+  // Function to fetch the shown page of the file catalog
+  const fetchCatalog = useCallback(async () => {
     try {
-      const response = await fetch('/api/file-catalog');
+      const response = await fetch(`/api/file-catalog?page=${page}&pageSize=${PAGE_SIZE}`);
       if (!response.ok) {
         throw new Error('Failed to fetch file catalog');
       }
@@ -44,12 +55,14 @@ export function FileStatus() {
       setError(err instanceof Error ? err.message : 'Unknown error');
       console.error('Error fetching file catalog:', err);
     }
-  };
+  }, [page]);
   
-  // Fetch catalog on component mount
+  // Fetch catalog on component mount and when the page changes
   useEffect(() => {
     fetchCatalog();
-  }, []);
+  }, [fetchCatalog]);
+  
+  const pageCount = catalog ? Math.max(1, Math.ceil(catalog.total / PAGE_SIZE)) : 1;
   
   // Function to trigger update
   const handleUpdate = async () => {
@@ -127,18 +140,18 @@ export function FileStatus() {
           <div className="flex justify-center items-center h-40">
             <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
           </div>
-        ) : Object.keys(catalog.files).length === 0 ? (
+        ) : catalog.total === 0 ? (
           <div className="text-center py-8 text-gray-500">
             No files in knowledge base yet. Add files to your Google Drive folder or manually to the knowledgebase directory.
           </div>
         ) : (
           <div className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="text-sm font-medium">Total Files: {Object.keys(catalog.files).length}</div>
+              <div className="text-sm font-medium">Total Files: {catalog.total}</div>
               <div className="text-sm font-medium text-right">
-                Success: {Object.values(catalog.files).filter(f => f.processingStatus === 'success').length} | 
-                Error: {Object.values(catalog.files).filter(f => f.processingStatus === 'error').length} | 
-                Pending: {Object.values(catalog.files).filter(f => f.processingStatus === 'pending').length}
+                Success: {catalog.statusCounts.success} | 
+                Error: {catalog.statusCounts.error} | 
+                Pending: {catalog.statusCounts.pending}
               </div>
             </div>
             
@@ -150,32 +163,79 @@ export function FileStatus() {
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Chunks</th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th scope="col" className="px-6 py-3"><span className="sr-only">History</span></th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {Object.values(catalog.files).map((file) => (
-                    <tr key={file.id}>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {file.name}
-                        <div className="text-xs text-gray-500">{file.sourceLocation}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {formatFileSize(file.size)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {file.chunkCount}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {getStatusBadge(file.processingStatus)}
-                        {file.errorMessage && (
-                          <div className="text-xs text-red-500 mt-1">{file.errorMessage}</div>
-                        )}
-                      </td>
-                    </tr>
+                  {catalog.files.map((file) => (
+                    <Fragment key={file.id}>
+                      <tr>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {file.name}
+                          <div className="text-xs text-gray-500">{file.sourceLocation}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatFileSize(file.size)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {file.chunkCount}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {getStatusBadge(file.processingStatus)}
+                          {file.errorMessage && (
+                            <div className="text-xs text-red-500 mt-1">{file.errorMessage}</div>
+                          )}
+                          {file.warnings?.map(warning => (
+                            <div key={warning} className="text-xs text-yellow-600 mt-1">{warning}</div>
+                          ))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setHistoryFileId(historyFileId === file.id ? null : file.id)}
+                          >
+                            <History className="w-4 h-4 mr-2" />
+                            History
+                          </Button>
+                        </td>
+                      </tr>
+                      {historyFileId === file.id && (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                            <FileHistory fileId={file.id} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
             </div>
+            
+            {pageCount > 1 && (
+              <div className="flex justify-between items-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="w-4 h-4 mr-2" />
+                  Previous
+                </Button>
+                <div className="text-sm text-gray-500">Page {page} of {pageCount}</div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount}
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-2" />
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </CardContent>
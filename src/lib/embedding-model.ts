@@ -0,0 +1,28 @@
+/**
+ * Embedding Model
+ *
+ * The embedding model used for the vector store, with the tokenizer it was
+ * trained with and the number of tokens it reads. Chunks are measured with
+ * this tokenizer, so they fit the model instead of being truncated by it.
+ */
+
+import { OllamaEmbeddings } from '@langchain/community/embeddings/ollama';
+
+export interface EmbeddingModel {
+  name: string;               // Ollama model name
+  tokenizerRepository: string; // Hugging Face repository holding the model's tokenizer files
+  maxTokens: number;          // Tokens the model reads; Ollama silently truncates longer input
+}
+
+export const embeddingModel: EmbeddingModel = {
+  name: 'nomic-embed-text',
+  tokenizerRepository: 'nomic-ai/nomic-embed-text-v1.5',
+  // Lower this when Ollama runs the model with a smaller num_ctx
+  maxTokens: parseInt(process.env.EMBEDDING_MAX_TOKENS || '', 10) || 8192
+};
+
+// Create Ollama embeddings instance, shared by the vector store and the semantic chunker
+export const embeddings = new OllamaEmbeddings({
+  model: embeddingModel.name,
+  baseUrl: 'http://localhost:11434', // Ensure Ollama is running on the default port
+});
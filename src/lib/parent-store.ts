@@ -0,0 +1,112 @@
+import fs from "fs";
+import { Document } from "@langchain/core/documents";
+import { BaseStore } from "@langchain/core/stores";
+import { BaseRetriever } from "@langchain/core/retrievers";
+import { UpstashRedisStore } from "@langchain/community/storage/upstash_redis";
+import { LocalFileStore } from "langchain/storage/file_system";
+import { redis } from "./redis";
+import { store } from "./vector";
+
+// Metadata key linking a child chunk in the vector store to its parent section
+export const parentChunkIdKey = "parentChunkId";
+
+type ByteStore = Pick<BaseStore<string, Uint8Array>, "mget" | "mset" | "mdelete" | "yieldKeys">;
+
+// Parent sections are kept in Redis, or in a local directory when PARENT_CHUNK_STORE_PATH is set
+const createByteStore = (): ByteStore => {
+  const localPath = process.env.PARENT_CHUNK_STORE_PATH;
+  if (localPath) {
+    fs.mkdirSync(localPath, { recursive: true });
+    return new LocalFileStore({ rootPath: localPath });
+  }
+
+  return new UpstashRedisStore({
+    client: redis,
+    namespace: "rag-vercel-ai-bot:parent-chunks", // Keep this consistent between storing and retrieving
+  });
+};
+
+// Document store for parent sections, serialised as JSON. Calls without keys
+// are skipped, since Redis rejects them
+class ParentChunkStore extends BaseStore<string, Document> {
+  lc_namespace = ["rag", "stores", "parent_chunks"];
+
+  private bytes = createByteStore();
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  async mget(keys: string[]): Promise<(Document | undefined)[]> {
+    if (keys.length === 0) return [];
+
+    const values = await this.bytes.mget(keys);
+    return values.map(value => value && new Document(JSON.parse(this.decoder.decode(value))));
+  }
+
+  async mset(keyValuePairs: [string, Document][]): Promise<void> {
+    if (keyValuePairs.length === 0) return;
+
+    await this.bytes.mset(keyValuePairs.map(([key, document]) => [
+      key,
+      this.encoder.encode(JSON.stringify({ pageContent: document.pageContent, metadata: document.metadata })),
+    ]));
+  }
+
+  async mdelete(keys: string[]): Promise<void> {
+    if (keys.length > 0) await this.bytes.mdelete(keys);
+  }
+
+  async *yieldKeys(prefix?: string): AsyncGenerator<string> {
+    yield* this.bytes.yieldKeys(prefix);
+  }
+}
+
+export const parentChunkStore = new ParentChunkStore();
+
+// Retriever that matches the small child chunks in the vector store and
+// returns their parent sections instead, each once, in order of best match.
+// A chunk stored without a parent, or whose parent is gone, is returned itself.
+// An optional Upstash metadata filter restricts the chunks matched, e.g.
+// "tags CONTAINS 'policy'" or "fileType = 'md'"
+export class ParentChunkRetriever extends BaseRetriever {
+  lc_namespace = ["rag", "retrievers", "parent_chunks"];
+
+  private childK: number;
+  private parentK: number;
+  private filter?: string;
+
+  constructor({ childK = 20, parentK = 5, filter }: { childK?: number; parentK?: number; filter?: string } = {}) {
+    super();
+    this.childK = childK;
+    this.parentK = parentK;
+    this.filter = filter;
+  }
+
+  async _getRelevantDocuments(query: string): Promise<Document[]> {
+    const children = await store.similaritySearch(query, this.childK, this.filter);
+    const parentIds = Array.from(new Set(children
+      .map(child => child.metadata[parentChunkIdKey])
+      .filter((id): id is string => typeof id === "string")));
+
+    const parents = await parentChunkStore.mget(parentIds);
+    const parentsById = new Map(parentIds.map((id, index) => [id, parents[index]]));
+
+    // Walk the children in rank order so each result keeps the rank of its best match
+    const results: Document[] = [];
+    const returnedParentIds = new Set<string>();
+    for (const child of children) {
+      const parentId = child.metadata[parentChunkIdKey];
+      const parent = typeof parentId === "string" ? parentsById.get(parentId) : undefined;
+
+      if (!parent) {
+        results.push(child);
+      } else if (!returnedParentIds.has(parentId)) {
+        returnedParentIds.add(parentId);
+        results.push(parent);
+      }
+
+      if (results.length === this.parentK) break;
+    }
+
+    return results;
+  }
+}
@@ -1,12 +1,7 @@
 import { Index } from "@upstash/vector";
-import { OllamaEmbeddings } from "@langchain/community/embeddings/ollama";
+import { Document } from "@langchain/core/documents";
 import { UpstashVectorStore } from "@langchain/community/vectorstores/upstash";
-
-// Create Ollama embeddings instance
-const embeddings = new OllamaEmbeddings({
-  model: "nomic-embed-text",
-  baseUrl: "http://localhost:11434", // Ensure Ollama is running on the default port
-});
+import { embeddings } from "./embedding-model";
 
 // Create Upstash Vector index with credentials from environment variables
 const index = new Index({
@@ -14,8 +9,20 @@ const index = new Index({
   token: process.env.UPSTASH_VECTOR_REST_TOKEN!,
 });
 
+const namespace = "rag-vercel-ai-bot"; // Keep this consistent between storing and retrieving
+
 // Create the vector store with a consistent namespace
 export const store = new UpstashVectorStore(embeddings, {
   index,
-  namespace: "rag-vercel-ai-bot", // Keep this consistent between storing and retrieving
+  namespace,
 });
+
+// Replace the metadata of stored chunks without embedding them again, in the
+// same form the vector store writes it
+export const updateChunkMetadata = async (chunks: { id: string; document: Document }[]) => {
+  await Promise.all(chunks.map(({ id, document }) => index.update({
+    id,
+    metadata: { _pageContentLC: document.pageContent, ...document.metadata },
+    metadataUpdateMode: "OVERWRITE",
+  }, { namespace })));
+};
@@ -0,0 +1,262 @@
+/**
+ * ZIP Archive Loader
+ *
+ * This loader expands ZIP archives and runs every supported file inside
+ * through its own loader. Extraction is guarded against path traversal,
+ * symlinks and oversized archives ("zip bombs"). Nested archives are skipped.
+ *
+ * The ingestion pipeline uses extractArchive() directly so that each inner
+ * file gets its own catalog entry; ArchiveLoader.load() is the standalone
+ * equivalent that returns the documents of all inner files at once.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration, resolveLoader } from './registry';
+
+/**
+ * A file extracted from an archive
+ */
+export interface ExtractedEntry {
+  archivePath: string;      // Path of the entry inside the archive, e.g. "docs/guide.pdf"
+  filePath: string;         // Path of the extracted file on disk
+  size: number;             // Uncompressed size in bytes
+}
+
+export const ARCHIVE_LOADER_NAME = 'archive';
+
+// Limits applied while expanding an archive
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;     // Size of the .zip file itself
+const MAX_ENTRIES = 1000;                       // Number of files extracted
+const MAX_ENTRY_SIZE = 100 * 1024 * 1024;       // Uncompressed size of a single file
+const MAX_TOTAL_SIZE = 500 * 1024 * 1024;       // Uncompressed size of all files
+
+// Unix file type bits, used to detect symlink entries
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+export class ArchiveLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new archive loader
+   * @param filePath Path to the ZIP file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from every supported file in the archive
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    const extractionDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-archive-'));
+
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      const entries = await extractArchive(this.filePath, extractionDir);
+      const documents: Document[] = [];
+
+      for (const entry of entries) {
+        const registration = resolveLoader(entry.filePath);
+        if (!registration) continue;
+
+        const entryDocuments = await registration.create(entry.filePath, this.fileId).load();
+        entryDocuments.forEach(document => {
+          document.metadata = {
+            ...document.metadata,
+            source: this.filePath,
+            archivePath: entry.archivePath
+          };
+        });
+        documents.push(...entryDocuments);
+      }
+
+      if (documents.length === 0) {
+        console.warn(`Warning: No text extracted from archive ${this.filePath}`);
+      }
+
+      return documents;
+    } catch (error) {
+      console.error(`Error loading archive ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading archive',
+        this.filePath
+      );
+    } finally {
+      fs.rmSync(extractionDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Check whether a file is an archive that should be expanded
+ * @param filePath Path to the file
+ */
+export const isArchiveFile = (filePath: string): boolean => {
+  return resolveLoader(filePath)?.name === ARCHIVE_LOADER_NAME;
+};
+
+/**
+ * Safely extract the supported files of a ZIP archive.
+ * Entries that are directories, symlinks, hidden, nested archives or not
+ * handled by any loader are skipped. Extraction fails if the archive
+ * exceeds the size or entry limits.
+ * @param archivePath Path to the ZIP file
+ * @param destination Directory to extract into; it is created if missing
+ * @returns The extracted files in archive order
+ */
+export const extractArchive = async (
+  archivePath: string,
+  destination: string
+): Promise<ExtractedEntry[]> => {
+  const archiveSize = fs.statSync(archivePath).size;
+  if (archiveSize > MAX_ARCHIVE_SIZE) {
+    throw new Error(`Archive is too large (${archiveSize} bytes, limit ${MAX_ARCHIVE_SIZE})`);
+  }
+
+  const zip = await JSZip.loadAsync(fs.readFileSync(archivePath));
+  const root = path.resolve(destination);
+  fs.mkdirSync(root, { recursive: true });
+
+  const entries: ExtractedEntry[] = [];
+  let totalSize = 0;
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || isSymlink(entry) || isHiddenEntry(entry.name)) continue;
+
+    // JSZip strips ".." from entry names; check the original name so that
+    // traversal attempts are skipped rather than silently relocated
+    const originalName = entry.unsafeOriginalName || entry.name;
+    const targetPath = resolveEntryPath(root, originalName);
+    if (!targetPath) {
+      console.warn(`Warning: Skipping unsafe archive entry "${entry.name}" in ${archivePath}`);
+      continue;
+    }
+
+    if (entries.length >= MAX_ENTRIES) {
+      throw new Error(`Archive has more than ${MAX_ENTRIES} files`);
+    }
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    const size = await writeEntry(entry, targetPath, MAX_TOTAL_SIZE - totalSize);
+    totalSize += size;
+
+    // Only keep files that a loader can read
+    const registration = resolveLoader(targetPath);
+    if (!registration || registration.name === ARCHIVE_LOADER_NAME) {
+      if (registration) {
+        console.warn(`Warning: Skipping nested archive "${entry.name}" in ${archivePath}`);
+      }
+      fs.rmSync(targetPath, { force: true });
+      continue;
+    }
+
+    entries.push({ archivePath: entry.name, filePath: targetPath, size });
+  }
+
+  return entries;
+};
+
+/**
+ * Resolve the extraction path of an entry, or null if it would escape the
+ * destination directory (absolute paths, drive letters or ".." segments)
+ */
+const resolveEntryPath = (root: string, entryName: string): string | null => {
+  const normalizedName = entryName.replace(/\\/g, '/');
+  if (normalizedName.startsWith('/') || /^[a-zA-Z]:/.test(normalizedName)) {
+    return null;
+  }
+
+  const segments = normalizedName.split('/');
+  if (segments.some(segment => segment === '..')) {
+    return null;
+  }
+
+  const targetPath = path.resolve(root, ...segments);
+  return targetPath.startsWith(root + path.sep) ? targetPath : null;
+};
+
+/**
+ * Check whether an entry is a symlink, based on its Unix permissions
+ */
+const isSymlink = (entry: JSZip.JSZipObject): boolean => {
+  const permissions = typeof entry.unixPermissions === 'number' ? entry.unixPermissions : 0;
+  return (permissions & UNIX_FILE_TYPE_MASK) === UNIX_SYMLINK;
+};
+
+/**
+ * Check whether an entry is hidden or OS metadata (e.g. "__MACOSX/", ".DS_Store")
+ */
+const isHiddenEntry = (entryName: string): boolean => {
+  return entryName
+    .split('/')
+    .some(segment => segment.startsWith('.') || segment === '__MACOSX');
+};
+
+/**
+ * Stream an entry to disk, aborting once it exceeds the size limits.
+ * Sizes are counted while decompressing because the sizes recorded in the
+ * archive headers cannot be trusted.
+ * @returns The number of bytes written
+ */
+const writeEntry = (
+  entry: JSZip.JSZipObject,
+  targetPath: string,
+  remainingTotalSize: number
+): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const limit = Math.min(MAX_ENTRY_SIZE, remainingTotalSize);
+    const source = entry.nodeStream('nodebuffer');
+    const output = fs.createWriteStream(targetPath);
+    let size = 0;
+
+    const fail = (error: Error) => {
+      source.unpipe(output);
+      output.destroy();
+      fs.rmSync(targetPath, { force: true });
+      reject(error);
+    };
+
+    source.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        fail(new Error(size > MAX_ENTRY_SIZE
+          ? `Archive entry "${entry.name}" is larger than ${MAX_ENTRY_SIZE} bytes`
+          : `Archive contents are larger than ${MAX_TOTAL_SIZE} bytes`));
+      }
+    });
+    source.on('error', fail);
+    output.on('error', fail);
+    output.on('finish', () => resolve(size));
+
+    source.pipe(output);
+  });
+};
+
+/**
+ * Registration for the archive loader
+ */
+export const archiveLoaderRegistration: LoaderRegistration = {
+  name: ARCHIVE_LOADER_NAME,
+  fileTypes: { '.zip': 'application/zip' },
+  // Any ZIP archive; loaders for ZIP based document formats are registered
+  // later so that their more specific signatures take precedence
+  signatures: [
+    { bytes: [0x50, 0x4b, 0x03, 0x04] },
+    { bytes: [0x50, 0x4b, 0x05, 0x06] } // Empty archive
+  ],
+  create: (filePath, fileId) => new ArchiveLoader(filePath, fileId)
+};
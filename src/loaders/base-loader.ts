@@ -1,7 +1,8 @@
 /**
  * Base Document Loader Interface
  * 
- * This file defines the interface that all document loaders must implement.
+ * This file defines the interface that all document loaders must implement,
+ * and the streaming variant implemented by loaders for very large files.
  */
 
 import { Document } from '@langchain/core/documents';
@@ -17,6 +18,45 @@ export interface DocumentLoader {
   load(): Promise<Document[]>;
 }
 
+/**
+ * Interface for loaders that can produce documents incrementally, so a
+ * very large file is never held in memory as a whole
+ */
+export interface StreamingDocumentLoader extends DocumentLoader {
+  /**
+   * Load documents from a file one at a time, in file order
+   * @returns Async iterator of Document objects
+   */
+  loadStream(): AsyncGenerator<Document>;
+}
+
+/**
+ * Check whether a loader supports streaming
+ */
+export const isStreamingLoader = (loader: DocumentLoader): loader is StreamingDocumentLoader => {
+  return typeof (loader as StreamingDocumentLoader).loadStream === 'function';
+};
+
+/**
+ * Iterate over the documents of any loader, streaming them when the
+ * loader supports it
+ * @param loader The document loader
+ * @returns Async iterator of Document objects
+ */
+export async function* streamDocuments(loader: DocumentLoader): AsyncGenerator<Document> {
+  if (isStreamingLoader(loader)) {
+    yield* loader.loadStream();
+  } else {
+    yield* await loader.load();
+  }
+}
+
+/**
+ * Kind of content a document holds. Tables are emitted as documents of their
+ * own, holding a Markdown table after the heading it sits under and its caption
+ */
+export type DocumentContentType = 'text' | 'table';
+
 /**
  * Base metadata for all documents
  */
@@ -28,6 +68,18 @@ export interface BaseDocumentMetadata {
   fileId?: string;          // ID from file catalog
   pageNumber?: number;      // Page number (for multi-page documents)
   totalPages?: number;      // Total pages (for multi-page documents)
+  headingPath?: string;     // Headings above the content, e.g. "Policies > Refunds"
+  sectionTitle?: string;    // Heading of the section the content belongs to
+  sectionNumber?: number;   // Section number (for documents split by heading)
+  totalSections?: number;   // Total sections (for documents split by heading)
+  chapterNumber?: number;   // Chapter number (for books split by chapter)
+  totalChapters?: number;   // Total chapters (for books split by chapter)
+  chapterTitle?: string;    // Title of the chapter the content belongs to
+  partNumber?: number;      // Part number (for large files streamed in pieces)
+  encoding?: string;        // Character encoding the text was decoded from
+  encodingConfidence?: number; // Confidence in the detected encoding (0-100)
+  contentType?: DocumentContentType; // 'table' for a table emitted as a document of its own
+  tableCaption?: string;    // Caption of a table document
   createdAt: string;        // ISO timestamp of when the document was created
 }
 
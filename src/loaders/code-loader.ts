@@ -0,0 +1,461 @@
+/**
+ * Source Code Document Loader
+ *
+ * This loader splits source files on top-level function, class and type
+ * boundaries, producing one document per declaration (imports and other
+ * code before the first declaration form their own document). Declarations
+ * larger than MAX_CODE_CHUNK_SIZE are split further at method boundaries or
+ * blank lines. Each document records its language, symbol name and line
+ * range, and starts with a "file:line" comment so answers can cite it.
+ *
+ * Declarations are found with per-language patterns rather than a parser,
+ * which is enough to keep functions intact for retrieval.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { decodeText, isLowConfidenceDecoding } from './text-encoding';
+
+/**
+ * Metadata for documents produced from source code
+ */
+export interface CodeDocumentMetadata extends BaseDocumentMetadata {
+  language: string;         // Language name, e.g. "typescript"
+  symbolName?: string;      // Declaration in the range, e.g. "UserService.save"
+  lineStart: number;        // First line of the range (1-based)
+  lineEnd: number;          // Last line of the range (inclusive)
+}
+
+/**
+ * How declarations are recognised in a language
+ */
+interface LanguageDefinition {
+  language: string;
+  extensions: string[];
+  declarations: RegExp[];   // Top-level declarations; group 1 is the symbol name
+  members: RegExp[];        // Nested declarations (methods); group 1 is the symbol name
+  leadingLine: RegExp;      // Comment, decorator or attribute lines kept with the declaration
+  commentPrefix: string;    // Line comment marker used for the citation header
+}
+
+// Largest document produced for a single declaration, in characters
+export const MAX_CODE_CHUNK_SIZE = 1500;
+
+// Words that look like declarations in the patterns but are control flow
+const KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'with', 'else',
+  'do', 'try', 'new', 'await', 'typeof', 'super', 'this', 'throw', 'case', 'sizeof'
+]);
+
+const C_STYLE_LEADING_LINE = /^\s*(\/\/|\/\*|\*|@)/;
+const HASH_LEADING_LINE = /^\s*(#|@)/;
+
+const JS_DECLARATIONS = [
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/,
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/,
+  /^(?:export\s+)?(?:declare\s+)?(?:const\s+)?(?:interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/,
+  /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\(|[A-Za-z_$][\w$]*\s*=>)/,
+  /^export\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/
+];
+
+const JS_MEMBERS = [
+  /^(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\s+)*\*?([A-Za-z_$#][\w$]*)\s*(?:<[^>]*>)?\s*\([^)]*\)\s*(?::\s*[^{;=]+)?\{\s*$/,
+  /^(?:(?:public|private|protected|static|readonly)\s+)*([A-Za-z_$#][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?\([^)]*\)\s*(?::\s*[^=]+)?=>/
+];
+
+const C_FUNCTION = /^(?:[A-Za-z_][\w:<>,]*[\s*&]+)+([A-Za-z_]\w*(?:::~?\w+)*)\s*\([^;]*$/;
+
+const LANGUAGES: LanguageDefinition[] = [
+  {
+    language: 'typescript',
+    extensions: ['.ts', '.tsx', '.mts', '.cts'],
+    declarations: JS_DECLARATIONS,
+    members: JS_MEMBERS,
+    leadingLine: C_STYLE_LEADING_LINE,
+    commentPrefix: '//'
+  },
+  {
+    language: 'javascript',
+    extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+    declarations: JS_DECLARATIONS,
+    members: JS_MEMBERS,
+    leadingLine: C_STYLE_LEADING_LINE,
+    commentPrefix: '//'
+  },
+  {
+    language: 'python',
+    extensions: ['.py'],
+    declarations: [/^(?:async\s+)?def\s+(\w+)/, /^class\s+(\w+)/],
+    members: [/^(?:async\s+)?def\s+(\w+)/],
+    leadingLine: HASH_LEADING_LINE,
+    commentPrefix: '#'
+  },
+  {
+    language: 'go',
+    extensions: ['.go'],
+    declarations: [/^func\s+(?:\([^)]*\)\s*)?(\w+)/, /^type\s+(\w+)/],
+    members: [],
+    leadingLine: /^\s*(\/\/|\/\*|\*)/,
+    commentPrefix: '//'
+  },
+  {
+    language: 'java',
+    extensions: ['.java'],
+    declarations: [
+      /^(?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp)\s+)*(?:class|interface|enum|record|@interface)\s+(\w+)/
+    ],
+    members: [
+      /^(?:(?:public|private|protected|static|final|abstract|synchronized|native|default)\s+)*(?:<[^>]+>\s+)?[\w<>[\],.?]+\s+(\w+)\s*\(/
+    ],
+    leadingLine: C_STYLE_LEADING_LINE,
+    commentPrefix: '//'
+  },
+  {
+    language: 'csharp',
+    extensions: ['.cs'],
+    declarations: [
+      /^(?:(?:public|private|protected|internal|static|sealed|abstract|partial|readonly|file)\s+)*(?:class|interface|enum|struct|record|namespace)\s+([\w.]+)/
+    ],
+    members: [
+      /^(?:(?:public|private|protected|internal|static|sealed|abstract|partial|readonly|async|override|virtual|extern|new)\s+)*[\w<>[\],.?]+\s+(\w+)\s*(?:<[^>]+>)?\s*\(/
+    ],
+    leadingLine: /^\s*(\/\/|\/\*|\*|\[)/,
+    commentPrefix: '//'
+  },
+  {
+    language: 'kotlin',
+    extensions: ['.kt', '.kts'],
+    declarations: [
+      /^(?:(?:public|private|internal|protected|open|abstract|sealed|data|enum|inner|annotation|value|suspend|inline)\s+)*(?:class|interface|object|fun)\s+(?:<[^>]+>\s*)?(?:[\w.]+\.)?(\w+)/
+    ],
+    members: [
+      /^(?:(?:public|private|internal|protected|open|override|abstract|suspend|inline|operator)\s+)*fun\s+(?:<[^>]+>\s*)?(?:[\w.]+\.)?(\w+)/
+    ],
+    leadingLine: C_STYLE_LEADING_LINE,
+    commentPrefix: '//'
+  },
+  {
+    language: 'rust',
+    extensions: ['.rs'],
+    declarations: [
+      /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:const\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?(?:fn|struct|enum|trait|impl|mod|union)\b\s*(?:<[^>]*>\s*)?([A-Za-z_]\w*)/
+    ],
+    members: [/^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:const\s+)?(?:unsafe\s+)?fn\s+(\w+)/],
+    leadingLine: /^\s*(\/\/|\/\*|\*|#\[)/,
+    commentPrefix: '//'
+  },
+  {
+    language: 'ruby',
+    extensions: ['.rb'],
+    declarations: [/^(?:def|class|module)\s+(?:self\.)?([\w:]+[?!=]?)/],
+    members: [/^def\s+(?:self\.)?(\w+[?!=]?)/],
+    leadingLine: /^\s*#/,
+    commentPrefix: '#'
+  },
+  {
+    language: 'php',
+    extensions: ['.php'],
+    declarations: [/^(?:(?:abstract|final|readonly)\s+)*(?:function|class|interface|trait|enum)\s+&?(\w+)/],
+    members: [/^(?:(?:public|private|protected|static|abstract|final)\s+)*function\s+&?(\w+)/],
+    leadingLine: /^\s*(\/\/|\/\*|\*|#\[)/,
+    commentPrefix: '//'
+  },
+  {
+    language: 'c',
+    extensions: ['.c', '.h'],
+    declarations: [/^(?:typedef\s+)?(?:struct|enum|union)\s+(\w+)/, C_FUNCTION],
+    members: [],
+    leadingLine: /^\s*(\/\/|\/\*|\*)/,
+    commentPrefix: '//'
+  },
+  {
+    language: 'cpp',
+    extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh'],
+    declarations: [/^(?:template\s*<[^>]*>\s*)?(?:class|struct|namespace|enum(?:\s+class)?|union)\s+(\w+)/, C_FUNCTION],
+    members: [C_FUNCTION],
+    leadingLine: /^\s*(\/\/|\/\*|\*|template\b)/,
+    commentPrefix: '//'
+  },
+  {
+    language: 'swift',
+    extensions: ['.swift'],
+    declarations: [
+      /^(?:(?:public|private|internal|fileprivate|open|final|static)\s+)*(?:func|class|struct|enum|protocol|extension|actor)\s+(\w+)/
+    ],
+    members: [/^(?:(?:public|private|internal|fileprivate|open|final|static|class|override|mutating|@\w+)\s+)*func\s+(\w+)/],
+    leadingLine: C_STYLE_LEADING_LINE,
+    commentPrefix: '//'
+  },
+  {
+    language: 'scala',
+    extensions: ['.scala'],
+    declarations: [/^(?:(?:private|protected|final|sealed|abstract|case|implicit)\s+)*(?:def|class|object|trait)\s+(\w+)/],
+    members: [/^(?:(?:private|protected|final|override|implicit)\s+)*def\s+(\w+)/],
+    leadingLine: C_STYLE_LEADING_LINE,
+    commentPrefix: '//'
+  },
+  {
+    language: 'shell',
+    extensions: ['.sh', '.bash'],
+    declarations: [/^function\s+([\w-]+)/, /^([\w-]+)\s*\(\)/],
+    members: [],
+    leadingLine: /^\s*#(?!!)/,
+    commentPrefix: '#'
+  }
+];
+
+/**
+ * A range of lines belonging to one declaration (0-based, inclusive)
+ */
+interface CodeUnit {
+  start: number;
+  end: number;
+  symbolName?: string;
+}
+
+export class CodeLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new source code loader
+   * @param filePath Path to the source file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the source file, one per declaration
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      const extension = path.extname(this.filePath).toLowerCase();
+      const definition = getLanguageDefinition(extension);
+      if (!definition) {
+        throw new DocumentLoadingError(`Unsupported source file extension: ${extension}`, this.filePath);
+      }
+
+      const { text, encoding, confidence } = decodeText(fs.readFileSync(this.filePath));
+
+      if (isLowConfidenceDecoding(confidence)) {
+        console.warn(`Warning: Low confidence (${confidence}%) decoding ${this.filePath} as ${encoding}`);
+      }
+
+      const lines = text.split('\n');
+      const units = findCodeUnits(lines, definition)
+        .flatMap(unit => splitLargeUnit(lines, unit, definition));
+
+      const fileName = path.basename(this.filePath);
+      const createdAt = new Date().toISOString();
+
+      const documents = units.map(unit => {
+        const lineStart = unit.start + 1;
+        const lineEnd = unit.end + 1;
+        const header = `${definition.commentPrefix} ${fileName}:${lineStart}-${lineEnd}${unit.symbolName ? ` ${unit.symbolName}` : ''}`;
+
+        const metadata: CodeDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType: extension.replace('.', ''),
+          mimeType: getCodeMimeType(definition.language),
+          fileId: this.fileId,
+          language: definition.language,
+          symbolName: unit.symbolName,
+          lineStart,
+          lineEnd,
+          encoding,
+          encodingConfidence: confidence,
+          createdAt
+        };
+
+        return new Document({
+          pageContent: `${header}\n${lines.slice(unit.start, unit.end + 1).join('\n')}`,
+          metadata
+        });
+      });
+
+      if (documents.length === 0) {
+        console.warn(`Warning: No code found in ${this.filePath}`);
+      }
+
+      return documents;
+    } catch (error) {
+      console.error(`Error loading source file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading source file',
+        this.filePath
+      );
+    }
+  }
+}
+
+/**
+ * Check whether a document was produced by the code loader. Code documents
+ * are already split on declaration boundaries and should not be re-split.
+ */
+export const isCodeDocument = (document: Document): boolean => {
+  return typeof document.metadata.language === 'string' && typeof document.metadata.lineStart === 'number';
+};
+
+const getLanguageDefinition = (extension: string): LanguageDefinition | undefined => {
+  return LANGUAGES.find(definition => definition.extensions.includes(extension));
+};
+
+const getCodeMimeType = (language: string): string => {
+  return language === 'javascript' ? 'text/javascript' : `text/x-${language}`;
+};
+
+/**
+ * Match a trimmed line against declaration patterns
+ * @returns The declared symbol name, or undefined if the line is not a declaration
+ */
+const matchDeclaration = (line: string, patterns: RegExp[]): string | undefined => {
+  for (const pattern of patterns) {
+    const name = line.match(pattern)?.[1];
+    if (name && !KEYWORDS.has(name)) {
+      return name;
+    }
+  }
+  return undefined;
+};
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+/**
+ * Move a declaration start up to include its doc comments and decorators
+ */
+const includeLeadingLines = (lines: string[], start: number, floor: number, definition: LanguageDefinition): number => {
+  let index = start;
+  while (index - 1 >= floor && lines[index - 1].trim() && definition.leadingLine.test(lines[index - 1])) {
+    index--;
+  }
+  return index;
+};
+
+/**
+ * Split a file into top-level declarations. Lines before the first
+ * declaration (imports, module comments) form a unit without a symbol.
+ */
+const findCodeUnits = (lines: string[], definition: LanguageDefinition): CodeUnit[] => {
+  const starts: { line: number; symbolName?: string }[] = [];
+
+  lines.forEach((line, index) => {
+    if (indentOf(line) > 0 || !line.trim()) return;
+
+    const symbolName = matchDeclaration(line, definition.declarations);
+    if (symbolName) {
+      const floor = starts.length > 0 ? starts[starts.length - 1].line + 1 : 0;
+      starts.push({ line: includeLeadingLines(lines, index, floor, definition), symbolName });
+    }
+  });
+
+  if (starts.length === 0 || starts[0].line > 0) {
+    starts.unshift({ line: 0 });
+  }
+
+  return starts
+    .map((start, index) => {
+      const nextStart = index + 1 < starts.length ? starts[index + 1].line : lines.length;
+      return trimUnit(lines, { start: start.line, end: nextStart - 1, symbolName: start.symbolName });
+    })
+    .filter((unit): unit is CodeUnit => unit !== null);
+};
+
+/**
+ * Drop blank lines at either end of a unit, or return null if it is empty
+ */
+const trimUnit = (lines: string[], unit: CodeUnit): CodeUnit | null => {
+  let { start, end } = unit;
+  while (start <= end && !lines[start].trim()) start++;
+  while (end >= start && !lines[end].trim()) end--;
+  return start <= end ? { ...unit, start, end } : null;
+};
+
+/**
+ * Split a unit larger than MAX_CODE_CHUNK_SIZE into pieces, cutting at
+ * method declarations where possible, then at blank lines, then anywhere.
+ * Pieces starting inside a method are named "<unit>.<method>".
+ */
+const splitLargeUnit = (lines: string[], unit: CodeUnit, definition: LanguageDefinition): CodeUnit[] => {
+  const unitSize = lines.slice(unit.start, unit.end + 1).join('\n').length;
+  if (unitSize <= MAX_CODE_CHUNK_SIZE) return [unit];
+
+  // Candidate cut points, as the first line of a new piece
+  const memberStarts = new Map<number, string>();
+  const blankBreaks = new Set<number>();
+  const baseIndent = indentOf(lines[unit.start]);
+
+  for (let index = unit.start + 1; index <= unit.end; index++) {
+    const line = lines[index];
+    if (indentOf(line) > baseIndent && line.trim()) {
+      const member = matchDeclaration(line.trim(), definition.members);
+      if (member) {
+        memberStarts.set(includeLeadingLines(lines, index, unit.start + 1, definition), member);
+      }
+    }
+    if (!lines[index - 1].trim() && line.trim()) {
+      blankBreaks.add(index);
+    }
+  }
+
+  const lastCandidate = (candidates: Iterable<number>, after: number, upTo: number): number | undefined => {
+    let best: number | undefined;
+    for (const candidate of Array.from(candidates)) {
+      if (candidate > after && candidate <= upTo && (best === undefined || candidate > best)) {
+        best = candidate;
+      }
+    }
+    return best;
+  };
+
+  const pieces: CodeUnit[] = [];
+  let pieceStart = unit.start;
+  let size = 0;
+
+  for (let index = unit.start; index <= unit.end; index++) {
+    size += lines[index].length + 1;
+    if (size <= MAX_CODE_CHUNK_SIZE || index === pieceStart) continue;
+
+    const cut = lastCandidate(memberStarts.keys(), pieceStart, index)
+      ?? lastCandidate(blankBreaks, pieceStart, index)
+      ?? index;
+
+    pieces.push({ start: pieceStart, end: cut - 1 });
+    pieceStart = cut;
+    size = lines.slice(cut, index + 1).join('\n').length + 1;
+  }
+  pieces.push({ start: pieceStart, end: unit.end });
+
+  // Name each piece after the method it starts in
+  const memberLines = Array.from(memberStarts.keys()).sort((a, b) => a - b);
+  return pieces
+    .map(piece => {
+      const memberLine = lastCandidate(memberLines, unit.start, piece.start);
+      const member = memberLine !== undefined ? memberStarts.get(memberLine) : undefined;
+      const symbolName = unit.symbolName && member ? `${unit.symbolName}.${member}` : unit.symbolName || member;
+      return trimUnit(lines, { ...piece, symbolName });
+    })
+    .filter((piece): piece is CodeUnit => piece !== null);
+};
+
+/**
+ * Registration for the source code loader
+ */
+export const codeLoaderRegistration: LoaderRegistration = {
+  name: 'code',
+  fileTypes: Object.fromEntries(LANGUAGES.flatMap(definition =>
+    definition.extensions.map(extension => [extension, getCodeMimeType(definition.language)]))),
+  create: (filePath, fileId) => new CodeLoader(filePath, fileId)
+};
@@ -1,14 +1,27 @@
 /**
  * DOCX Document Loader
  * 
- * This loader extracts text from DOCX files using the mammoth library.
+ * This loader converts DOCX files to HTML using the mammoth library and splits
+ * the result into one document per heading section. Tables are emitted as
+ * documents of their own, rendered as Markdown tables, and each document
+ * records its heading path.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as mammoth from 'mammoth';
+import { parse } from 'node-html-parser';
 import { Document } from '@langchain/core/documents';
 import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { extractSections } from './html-sections';
+
+// Extra style mappings on top of mammoth's defaults (which cover "Heading 1-6").
+// Google Docs exports use the "Title" and "Subtitle" paragraph styles.
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh"
+];
 
 export class DocxLoader implements DocumentLoader {
   private filePath: string;
@@ -25,7 +38,7 @@ export class DocxLoader implements DocumentLoader {
   }
   
   /**
-   * Load documents from the DOCX file
+   * Load documents from the DOCX file, one per heading section
    * @returns Promise resolving to an array of Document objects
    */
   async load(): Promise<Document[]> {
@@ -38,33 +51,44 @@ export class DocxLoader implements DocumentLoader {
       // Read the file as a buffer
       const buffer = fs.readFileSync(this.filePath);
       
-      // Use mammoth to extract text
-      const result = await mammoth.extractRawText({ buffer });
-      const text = result.value || '';
+      // Use mammoth to convert to HTML, which keeps headings, lists and tables
+      const result = await mammoth.convertToHtml({ buffer }, {
+        styleMap: STYLE_MAP,
+        // Images carry no text, so skip embedding their data in the HTML
+        convertImage: mammoth.images.imgElement(async () => ({ src: '' }))
+      });
+      
+      const sections = extractSections(parse(result.value));
       
-      if (!text) {
+      if (sections.length === 0) {
         console.warn(`Warning: No text extracted from DOCX file ${this.filePath}`);
       }
       
-      // Create document with metadata
+      // Create one document per section with metadata
       const fileName = path.basename(this.filePath);
-      const metadata: BaseDocumentMetadata = {
-        source: this.filePath,
-        fileName,
-        fileType: 'docx',
-        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        fileId: this.fileId,
-        pageNumber: 1,
-        totalPages: 1,
-        createdAt: new Date().toISOString()
-      };
+      const createdAt = new Date().toISOString();
       
-      return [
-        new Document({
-          pageContent: text,
+      return sections.map((section, index) => {
+        const metadata: BaseDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType: 'docx',
+          mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          fileId: this.fileId,
+          headingPath: section.headings.join(' > '),
+          sectionTitle: section.headings[section.headings.length - 1],
+          sectionNumber: index + 1,
+          totalSections: sections.length,
+          contentType: section.contentType,
+          tableCaption: section.caption,
+          createdAt
+        };
+        
+        return new Document({
+          pageContent: section.content,
           metadata
-        })
-      ];
+        });
+      });
     } catch (error) {
       console.error(`Error loading DOCX file ${this.filePath}:`, error);
       throw new DocumentLoadingError(
@@ -73,4 +97,15 @@ export class DocxLoader implements DocumentLoader {
       );
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Registration for the DOCX loader
+ */
+export const docxLoaderRegistration: LoaderRegistration = {
+  name: 'docx',
+  fileTypes: { '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  // A ZIP archive containing the "word/" part folder
+  signatures: [{ bytes: [0x50, 0x4b, 0x03, 0x04], pattern: /word\// }],
+  create: (filePath, fileId) => new DocxLoader(filePath, fileId)
+};
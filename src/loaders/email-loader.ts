@@ -0,0 +1,299 @@
+/**
+ * Email Document Loader
+ *
+ * This loader parses MIME messages from .eml files and .mbox archives using
+ * mailparser, producing one document per message. Mbox archives are read
+ * as a stream and split into messages as they are read, so an archive is
+ * never held in memory as a whole. The message body (plain
+ * text, or HTML converted to text) is followed by the contents of any text
+ * attachments. Sender, recipients, subject, date and thread are stored as
+ * metadata so that retrieval can be filtered on them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { simpleParser, ParsedMail, AddressObject, Attachment } from 'mailparser';
+import { parse } from 'node-html-parser';
+import { Document } from '@langchain/core/documents';
+import { StreamingDocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+
+/**
+ * Metadata for documents produced from email messages
+ */
+export interface EmailDocumentMetadata extends BaseDocumentMetadata {
+  from: string;             // Sender, e.g. "Jane Doe <jane@example.com>"
+  to: string;               // Recipients, comma separated
+  subject: string;          // Message subject
+  date?: string;            // ISO timestamp from the Date header
+  threadId: string;         // Message-ID of the first message in the thread
+  messageId?: string;       // Message-ID of this message
+  attachments: string[];    // Names of the text attachments included in the content
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.eml': 'message/rfc822',
+  '.mbox': 'application/mbox'
+};
+
+// Attachment types whose content is included in the document
+const TEXT_ATTACHMENT_TYPES = [
+  'text/plain', 'text/markdown', 'text/csv', 'text/html',
+  'application/json', 'application/xml', 'text/xml'
+];
+
+export class EmailLoader implements StreamingDocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new email loader
+   * @param filePath Path to the .eml or .mbox file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the email file, one per message
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    const docs: Document[] = [];
+    for await (const doc of this.loadStream()) {
+      docs.push(doc);
+    }
+    return docs;
+  }
+
+  /**
+   * Stream documents from the email file, one per message, parsing each
+   * message of an mbox archive as soon as it has been read
+   * @returns Async iterator of Document objects in file order
+   */
+  async *loadStream(): AsyncGenerator<Document> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      const extension = path.extname(this.filePath).toLowerCase();
+      const fileType = extension === '.mbox' || isMbox(this.filePath) ? 'mbox' : 'eml';
+      const messages = fileType === 'mbox'
+        ? readMboxMessages(this.filePath)
+        : readMessage(this.filePath);
+
+      const fileName = path.basename(this.filePath);
+      const mimeType = MIME_TYPES[`.${fileType}`];
+      const createdAt = new Date().toISOString();
+      let messageNumber = 0;
+
+      for await (const message of messages) {
+        messageNumber++;
+        const mail = await simpleParser(message);
+        const subject = mail.subject || '';
+        const body = getBodyText(mail);
+        const attachments = mail.attachments.filter(isTextAttachment);
+
+        const sections = [
+          formatHeaders(mail),
+          body,
+          ...attachments.map(attachment =>
+            `Attachment: ${attachment.filename || 'unnamed'}\n\n${getAttachmentText(attachment)}`)
+        ].filter(section => section.length > 0);
+
+        const metadata: EmailDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType,
+          mimeType,
+          fileId: this.fileId,
+          pageNumber: messageNumber,
+          // The number of messages in an archive is only known once it has been read
+          totalPages: fileType === 'eml' ? 1 : undefined,
+          from: formatAddresses(mail.from),
+          to: formatAddresses(mail.to),
+          subject,
+          date: mail.date ? mail.date.toISOString() : undefined,
+          threadId: getThreadId(mail),
+          messageId: mail.messageId,
+          attachments: attachments.map(attachment => attachment.filename || 'unnamed'),
+          createdAt
+        };
+
+        yield new Document({
+          pageContent: sections.join('\n\n'),
+          metadata
+        });
+      }
+
+      if (messageNumber === 0) {
+        console.warn(`Warning: No messages found in email file ${this.filePath}`);
+      }
+    } catch (error) {
+      console.error(`Error loading email file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading email',
+        this.filePath
+      );
+    }
+  }
+}
+
+/**
+ * Check whether a file starts with an mbox "From " separator line
+ */
+const isMbox = (filePath: string): boolean => {
+  const start = Buffer.alloc(5);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, start, 0, start.length, 0);
+    return start.subarray(0, bytesRead).toString('latin1') === 'From ';
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Read a single-message .eml file
+ */
+async function* readMessage(filePath: string): AsyncGenerator<Buffer> {
+  yield fs.readFileSync(filePath);
+}
+
+/**
+ * Read the raw messages of an mbox archive one at a time.
+ * Messages start with a "From " line at the start of the file or after a
+ * blank line; quoted ">From " lines in bodies are unescaped (mboxrd).
+ * The archive is read as latin1 so that 8-bit bodies survive unchanged.
+ */
+async function* readMboxMessages(filePath: string): AsyncGenerator<Buffer> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'latin1' }),
+    crlfDelay: Infinity
+  });
+
+  let current: string[] | null = null;
+  let previous = '';
+
+  const toMessage = (messageLines: string[]): Buffer | null => {
+    const message = messageLines.join('\r\n').trim();
+    return message.length > 0 ? Buffer.from(message, 'latin1') : null;
+  };
+
+  for await (const line of lines) {
+    if (line.startsWith('From ') && previous === '') {
+      const message = current && toMessage(current);
+      if (message) yield message;
+      current = [];
+    } else if (current) {
+      current.push(line.replace(/^>(>*From )/, '$1'));
+    }
+    previous = line;
+  }
+
+  const message = current && toMessage(current);
+  if (message) yield message;
+}
+
+/**
+ * Render the headers shown at the top of each message document
+ */
+const formatHeaders = (mail: ParsedMail): string => {
+  const headers = [
+    ['From', formatAddresses(mail.from)],
+    ['To', formatAddresses(mail.to)],
+    ['Cc', formatAddresses(mail.cc)],
+    ['Date', mail.date ? mail.date.toISOString() : ''],
+    ['Subject', mail.subject || '']
+  ];
+
+  return headers
+    .filter(([, value]) => value.length > 0)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+};
+
+/**
+ * Join one or more address headers into a single string
+ */
+const formatAddresses = (addresses?: AddressObject | AddressObject[]): string => {
+  if (!addresses) return '';
+  const list = Array.isArray(addresses) ? addresses : [addresses];
+  return list.map(address => address.text).filter(Boolean).join(', ');
+};
+
+/**
+ * Get the message body as text, converting HTML-only messages
+ */
+const getBodyText = (mail: ParsedMail): string => {
+  if (mail.text && mail.text.trim()) {
+    return mail.text.trim();
+  }
+
+  return mail.html ? htmlToText(mail.html) : '';
+};
+
+/**
+ * Identify the thread a message belongs to.
+ * The first entry of References is the thread root; replies without
+ * References fall back to In-Reply-To, and new threads use their own ID.
+ * Messages without any IDs are grouped by their normalised subject.
+ */
+const getThreadId = (mail: ParsedMail): string => {
+  const references = typeof mail.references === 'string'
+    ? mail.references.split(/\s+/)
+    : mail.references || [];
+
+  const rootId = references.find(Boolean) || mail.inReplyTo || mail.messageId;
+  if (rootId) {
+    return rootId.trim();
+  }
+
+  const normalizedSubject = (mail.subject || '')
+    .replace(/^((re|fwd?|aw|wg)\s*(\[\d+\])?:\s*)+/i, '')
+    .trim()
+    .toLowerCase();
+  return `subject:${normalizedSubject}`;
+};
+
+/**
+ * Check whether an attachment holds text worth indexing
+ */
+const isTextAttachment = (attachment: Attachment): boolean => {
+  const contentType = attachment.contentType.toLowerCase();
+  return !attachment.related && TEXT_ATTACHMENT_TYPES.includes(contentType);
+};
+
+/**
+ * Decode the contents of a text attachment
+ */
+const getAttachmentText = (attachment: Attachment): string => {
+  const text = attachment.content.toString('utf-8');
+  return attachment.contentType.toLowerCase() === 'text/html' ? htmlToText(text) : text.trim();
+};
+
+/**
+ * Convert an HTML fragment to plain text
+ */
+const htmlToText = (html: string): string => {
+  const root = parse(html, { blockTextElements: { script: false, style: false, pre: true } });
+  return root.structuredText.trim();
+};
+
+/**
+ * Registration for the email loader
+ */
+export const emailLoaderRegistration: LoaderRegistration = {
+  name: 'email',
+  fileTypes: MIME_TYPES,
+  signatures: [
+    { pattern: /^From \S+/, mimeType: 'application/mbox' },
+    { pattern: /^(Return-Path|Received|Delivered-To|Message-ID|MIME-Version):/i, mimeType: 'message/rfc822' }
+  ],
+  create: (filePath, fileId) => new EmailLoader(filePath, fileId)
+};
@@ -0,0 +1,287 @@
+/**
+ * EPUB Document Loader
+ *
+ * This loader reads EPUB e-books, producing one document per chapter in
+ * reading (spine) order. Chapter titles come from the table of contents
+ * (EPUB 3 navigation document or EPUB 2 NCX), falling back to the first
+ * heading of the chapter. Chapter XHTML is rendered with the shared HTML
+ * section helpers, so headings, lists and tables are kept as Markdown;
+ * tables are emitted as documents of their own after their chapter.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { parse, HTMLElement } from 'node-html-parser';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { HtmlSection, extractSections, collapseWhitespace } from './html-sections';
+
+/**
+ * Metadata for documents produced from EPUB chapters
+ */
+export interface EpubDocumentMetadata extends BaseDocumentMetadata {
+  title?: string;           // Book title from the package metadata
+  author?: string;          // Book author from the package metadata
+}
+
+const EPUB_MIME_TYPE = 'application/epub+zip';
+
+/**
+ * A content document listed in the spine
+ */
+interface SpineItem {
+  path: string;             // Path of the XHTML part inside the archive
+}
+
+/**
+ * The parts of the package document used by the loader
+ */
+interface EpubPackage {
+  title?: string;
+  author?: string;
+  spine: SpineItem[];
+  tocTitles: Map<string, string>; // Part path -> table of contents title
+}
+
+export class EpubLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new EPUB loader
+   * @param filePath Path to the EPUB file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the EPUB file, one per chapter
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      // An EPUB file is a zip archive of XHTML parts described by a package document
+      const zip = await JSZip.loadAsync(fs.readFileSync(this.filePath));
+      const epub = await readPackage(zip);
+
+      const chapters: { title?: string; content: string; tables: HtmlSection[] }[] = [];
+
+      for (const item of epub.spine) {
+        const xhtml = await readZipText(zip, item.path);
+        if (!xhtml) continue;
+
+        const root = parse(xhtml, { blockTextElements: { script: false, style: false, pre: true } });
+        const body = root.querySelector('body') || root;
+        body.querySelectorAll('script, style, nav').forEach(element => element.remove());
+
+        const sections = extractSections(body);
+        const content = sections
+          .filter(section => section.contentType === 'text')
+          .map(section => section.content)
+          .join('\n\n');
+        const tables = sections.filter(section => section.contentType === 'table');
+        if (!content && tables.length === 0) continue;
+
+        const heading = body.querySelector('h1, h2, h3');
+        const title = epub.tocTitles.get(item.path)
+          || (heading ? collapseWhitespace(heading.text) : undefined)
+          || collapseWhitespace(root.querySelector('title')?.text || '')
+          || undefined;
+
+        chapters.push({ title, content, tables });
+      }
+
+      if (chapters.length === 0) {
+        console.warn(`Warning: No text extracted from EPUB file ${this.filePath}`);
+      }
+
+      const fileName = path.basename(this.filePath);
+      const createdAt = new Date().toISOString();
+
+      return chapters.flatMap((chapter, index) => {
+        const metadata: EpubDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType: 'epub',
+          mimeType: EPUB_MIME_TYPE,
+          fileId: this.fileId,
+          chapterNumber: index + 1,
+          totalChapters: chapters.length,
+          chapterTitle: chapter.title,
+          title: epub.title,
+          author: epub.author,
+          createdAt
+        };
+
+        const tableDocuments = chapter.tables.map(table => new Document({
+          pageContent: table.content,
+          metadata: {
+            ...metadata,
+            headingPath: table.headings.join(' > '),
+            contentType: 'table',
+            tableCaption: table.caption
+          }
+        }));
+
+        return chapter.content
+          ? [new Document({ pageContent: chapter.content, metadata }), ...tableDocuments]
+          : tableDocuments;
+      });
+    } catch (error) {
+      console.error(`Error loading EPUB file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading EPUB',
+        this.filePath
+      );
+    }
+  }
+}
+
+/**
+ * Read a part of the archive as text, or null if it does not exist
+ */
+const readZipText = async (zip: JSZip, partPath: string): Promise<string | null> => {
+  const file = zip.file(partPath);
+  return file ? file.async('string') : null;
+};
+
+/**
+ * Resolve an href found in a part against the folder of that part
+ */
+const resolveHref = (basePath: string, href: string): string => {
+  const target = decodeURIComponent(href.split('#')[0]);
+  return path.posix.normalize(path.posix.join(path.posix.dirname(basePath), target));
+};
+
+/**
+ * Parse an XML part. Tag names keep their namespace prefix, e.g. "dc:title".
+ */
+const parseXml = (xml: string): HTMLElement => parse(xml, { comment: false });
+
+const firstText = (root: HTMLElement, tagName: string): string | undefined => {
+  const element = root.getElementsByTagName(tagName)[0];
+  return element ? collapseWhitespace(element.text) || undefined : undefined;
+};
+
+/**
+ * Read the package document: book metadata, spine order and chapter titles
+ */
+const readPackage = async (zip: JSZip): Promise<EpubPackage> => {
+  const containerXml = await readZipText(zip, 'META-INF/container.xml');
+  if (!containerXml) {
+    throw new Error('Missing META-INF/container.xml');
+  }
+
+  const packagePath = parseXml(containerXml).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const packageXml = packagePath ? await readZipText(zip, packagePath) : null;
+  if (!packagePath || !packageXml) {
+    throw new Error('Missing EPUB package document');
+  }
+
+  const root = parseXml(packageXml);
+
+  // Manifest items by ID
+  const manifest = new Map<string, { path: string; mediaType: string; properties: string }>();
+  root.getElementsByTagName('item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+
+    manifest.set(id, {
+      path: resolveHref(packagePath, href),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || ''
+    });
+  });
+
+  const spine = root.getElementsByTagName('itemref')
+    .filter(itemref => itemref.getAttribute('linear') !== 'no')
+    .map(itemref => manifest.get(itemref.getAttribute('idref') || ''))
+    .filter((item): item is { path: string; mediaType: string; properties: string } =>
+      !!item && /html/.test(item.mediaType))
+    .map(item => ({ path: item.path }));
+
+  // Table of contents: EPUB 3 navigation document, else EPUB 2 NCX
+  const manifestItems = Array.from(manifest.values());
+  const navItem = manifestItems.find(item => item.properties.split(/\s+/).includes('nav'));
+  const tocId = root.getElementsByTagName('spine')[0]?.getAttribute('toc');
+  const ncxItem = (tocId ? manifest.get(tocId) : undefined)
+    || manifestItems.find(item => item.mediaType === 'application/x-dtbncx+xml');
+
+  let tocTitles = new Map<string, string>();
+  if (navItem) {
+    tocTitles = await readNavTitles(zip, navItem.path);
+  }
+  if (tocTitles.size === 0 && ncxItem) {
+    tocTitles = await readNcxTitles(zip, ncxItem.path);
+  }
+
+  return {
+    title: firstText(root, 'dc:title'),
+    author: firstText(root, 'dc:creator'),
+    spine,
+    tocTitles
+  };
+};
+
+/**
+ * Read chapter titles from an EPUB 3 navigation document
+ */
+const readNavTitles = async (zip: JSZip, navPath: string): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const navXml = await readZipText(zip, navPath);
+  if (!navXml) return titles;
+
+  const root = parse(navXml);
+  const tocNav = root.querySelectorAll('nav').find(nav => nav.getAttribute('epub:type') === 'toc')
+    || root.querySelector('nav');
+
+  tocNav?.querySelectorAll('a[href]').forEach(link => {
+    const target = resolveHref(navPath, link.getAttribute('href') || '');
+    const title = collapseWhitespace(link.text);
+    if (title && !titles.has(target)) titles.set(target, title);
+  });
+
+  return titles;
+};
+
+/**
+ * Read chapter titles from an EPUB 2 NCX table of contents
+ */
+const readNcxTitles = async (zip: JSZip, ncxPath: string): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const ncxXml = await readZipText(zip, ncxPath);
+  if (!ncxXml) return titles;
+
+  parseXml(ncxXml).getElementsByTagName('navPoint').forEach(navPoint => {
+    const src = navPoint.getElementsByTagName('content')[0]?.getAttribute('src');
+    const title = firstText(navPoint, 'text');
+    if (!src || !title) return;
+
+    const target = resolveHref(ncxPath, src);
+    if (!titles.has(target)) titles.set(target, title);
+  });
+
+  return titles;
+};
+
+/**
+ * Registration for the EPUB loader
+ */
+export const epubLoaderRegistration: LoaderRegistration = {
+  name: 'epub',
+  fileTypes: { '.epub': EPUB_MIME_TYPE },
+  // A ZIP archive whose first entry is the "mimetype" file
+  signatures: [{ bytes: [0x50, 0x4b, 0x03, 0x04], pattern: /mimetypeapplication\/epub\+zip/ }],
+  create: (filePath, fileId) => new EpubLoader(filePath, fileId)
+};
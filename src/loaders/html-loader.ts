@@ -0,0 +1,158 @@
+/**
+ * HTML Document Loader
+ *
+ * This loader converts HTML pages into readable text using node-html-parser.
+ * Scripts, styles, navigation, headers, footers and other boilerplate are
+ * removed; headings, lists and tables are preserved as Markdown-style text.
+ * The page is split into one document per heading section, and one per table.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, HTMLElement } from 'node-html-parser';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { extractSections, collapseWhitespace } from './html-sections';
+
+/**
+ * Metadata for documents produced from HTML sections
+ */
+export interface HtmlDocumentMetadata extends BaseDocumentMetadata {
+  title?: string;           // Contents of the <title> element
+}
+
+// Elements that never contain readable content
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe',
+  'object', 'embed', 'form', 'button', 'select', 'input', 'textarea'
+].join(', ');
+
+// Elements and ARIA roles that hold navigation and page chrome
+const BOILERPLATE_ELEMENTS = [
+  'nav', 'footer', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]',
+  '[role="complementary"]', '[role="search"]', '[aria-hidden="true"]'
+].join(', ');
+
+// Class names and IDs that commonly mark boilerplate blocks
+const BOILERPLATE_PATTERN = /(^|[\s_-])(nav|navbar|navigation|menu|footer|sidebar|breadcrumbs?|cookies?|consent|banner|share|social|skip-link|advert|ads)($|[\s_-])/i;
+
+export class HtmlLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new HTML loader
+   * @param filePath Path to the HTML file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the HTML file, one per heading section
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      const html = fs.readFileSync(this.filePath, 'utf-8');
+      const root = parse(html, {
+        comment: false,
+        blockTextElements: { script: false, noscript: false, style: false, pre: true }
+      });
+
+      const title = collapseWhitespace(root.querySelector('title')?.text || '') || undefined;
+      const content = getContentRoot(root);
+      removeBoilerplate(content);
+
+      const sections = extractSections(content);
+
+      const fileName = path.basename(this.filePath);
+      const fileType = path.extname(this.filePath).toLowerCase().replace('.', '');
+      const createdAt = new Date().toISOString();
+
+      const documents = sections.map((section, index) => {
+        const metadata: HtmlDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType,
+          mimeType: 'text/html',
+          fileId: this.fileId,
+          title,
+          headingPath: section.headings.join(' > '),
+          sectionTitle: section.headings[section.headings.length - 1],
+          sectionNumber: index + 1,
+          totalSections: sections.length,
+          contentType: section.contentType,
+          tableCaption: section.caption,
+          createdAt
+        };
+
+        return new Document({
+          pageContent: section.content,
+          metadata
+        });
+      });
+
+      if (documents.length === 0) {
+        console.warn(`Warning: No text extracted from HTML file ${this.filePath}`);
+      }
+
+      return documents;
+    } catch (error) {
+      console.error(`Error loading HTML file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading HTML',
+        this.filePath
+      );
+    }
+  }
+}
+
+/**
+ * Pick the element holding the main content of the page
+ */
+const getContentRoot = (root: HTMLElement): HTMLElement => {
+  return root.querySelector('main')
+    || root.querySelector('[role="main"]')
+    || root.querySelector('article')
+    || root.querySelector('body')
+    || root;
+};
+
+/**
+ * Remove non-content elements and navigation boilerplate in place
+ */
+const removeBoilerplate = (content: HTMLElement): void => {
+  content.querySelectorAll(REMOVED_ELEMENTS).forEach(element => element.remove());
+  content.querySelectorAll(BOILERPLATE_ELEMENTS).forEach(element => element.remove());
+
+  // A <header> inside an article usually holds its title, so only drop page headers
+  content.querySelectorAll('header').forEach(element => {
+    if (!element.closest('article')) element.remove();
+  });
+
+  content.querySelectorAll('[class], [id]').forEach(element => {
+    const identifiers = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+    if (BOILERPLATE_PATTERN.test(identifiers)) element.remove();
+  });
+};
+
+/**
+ * Registration for the HTML loader
+ */
+export const htmlLoaderRegistration: LoaderRegistration = {
+  name: 'html',
+  fileTypes: { '.html': 'text/html', '.htm': 'text/html' },
+  // Optional UTF-8 BOM, leading comments, then a doctype or <html> tag
+  signatures: [{ pattern: /^(\xEF\xBB\xBF)?\s*(<!--[\s\S]*?-->\s*)*(<!doctype html|<html)/i }],
+  create: (filePath, fileId) => new HtmlLoader(filePath, fileId)
+};
@@ -0,0 +1,239 @@
+/**
+ * HTML Section Extraction
+ *
+ * This file converts an HTML element tree into heading sections of readable
+ * text. Headings become Markdown headings, lists become bullets and tables
+ * become Markdown tables. Each table is a section of its own, following the
+ * text of the heading section it sits in. It is shared by the loaders that
+ * work on HTML, including the DOCX loader, which converts documents to HTML
+ * with mammoth.
+ */
+
+import { HTMLElement, Node, NodeType } from 'node-html-parser';
+
+// Elements that start a new block of text
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'blockquote', 'body', 'dd', 'details', 'div', 'dl',
+  'dt', 'fieldset', 'figcaption', 'figure', 'header', 'hr', 'li', 'main',
+  'p', 'section', 'summary'
+]);
+
+type HtmlBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'table'; text: string; caption?: string };
+
+/**
+ * A heading section of an HTML document, or a table
+ */
+export interface HtmlSection {
+  headings: string[];       // Heading path, outermost first
+  content: string;          // Section text, starting with its Markdown heading
+  contentType: 'text' | 'table';
+  caption?: string;         // Caption of a table
+}
+
+interface PendingSection {
+  headings: string[];
+  level: number;
+  lines: string[];
+  tables: HtmlSection[];    // Tables of the section, which follow its text
+}
+
+/**
+ * Split an element tree into heading sections
+ * @param root Element holding the content
+ * @returns Sections in document order, skipping sections without text
+ */
+export const extractSections = (root: Node): HtmlSection[] => {
+  const blocks: HtmlBlock[] = [];
+  const inline: string[] = [];
+  renderBlocks(root, blocks, inline);
+  flushInline(blocks, inline);
+  return groupSections(blocks);
+};
+
+/**
+ * Walk the element tree and collect headings and text blocks in document order
+ * @param node Node to render
+ * @param blocks Collected blocks
+ * @param inline Inline text collected for the current paragraph
+ */
+const renderBlocks = (node: Node, blocks: HtmlBlock[], inline: string[]): void => {
+  const flush = () => flushInline(blocks, inline);
+
+  for (const child of node.childNodes) {
+    if (child.nodeType === NodeType.TEXT_NODE) {
+      inline.push(child.text.replace(/\s+/g, ' '));
+      continue;
+    }
+    if (!(child instanceof HTMLElement)) continue;
+
+    const tag = child.rawTagName?.toLowerCase() || '';
+    const headingMatch = tag.match(/^h([1-6])$/);
+
+    if (headingMatch) {
+      flush();
+      const text = collapseWhitespace(child.text);
+      if (text) blocks.push({ type: 'heading', level: parseInt(headingMatch[1], 10), text });
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      const list = renderList(child, 0);
+      if (list) blocks.push({ type: 'text', text: list });
+    } else if (tag === 'table') {
+      flush();
+      const table = renderTable(child);
+      if (table) blocks.push({ type: 'table', ...table });
+    } else if (tag === 'pre') {
+      flush();
+      const code = child.text.replace(/^\n+|\s+$/g, '');
+      if (code) blocks.push({ type: 'text', text: '```\n' + code + '\n```' });
+    } else if (tag === 'br') {
+      inline.push('\n');
+    } else if (tag === 'img') {
+      const alt = child.getAttribute('alt');
+      if (alt) inline.push(` ${alt} `);
+    } else if (BLOCK_ELEMENTS.has(tag)) {
+      flush();
+      renderBlocks(child, blocks, inline);
+      flush();
+    } else {
+      renderBlocks(child, blocks, inline);
+    }
+  }
+};
+
+/**
+ * Turn the pending inline text into a text block.
+ * Inline text keeps only the line breaks that came from <br> elements.
+ */
+const flushInline = (blocks: HtmlBlock[], inline: string[]): void => {
+  const text = inline.join('')
+    .split('\n')
+    .map(collapseWhitespace)
+    .filter(line => line !== '')
+    .join('\n');
+  inline.length = 0;
+  if (text) blocks.push({ type: 'text', text });
+};
+
+/**
+ * Render a list as Markdown bullets, indenting nested lists
+ */
+const renderList = (list: HTMLElement, depth: number): string => {
+  const ordered = list.rawTagName.toLowerCase() === 'ol';
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  let index = 1;
+
+  for (const item of list.childNodes) {
+    if (!(item instanceof HTMLElement) || item.rawTagName.toLowerCase() !== 'li') continue;
+
+    const nestedLists: HTMLElement[] = [];
+    const textParts: string[] = [];
+    for (const child of item.childNodes) {
+      const childTag = child instanceof HTMLElement ? child.rawTagName.toLowerCase() : '';
+      if (childTag === 'ul' || childTag === 'ol') {
+        nestedLists.push(child as HTMLElement);
+      } else {
+        textParts.push(child.text);
+      }
+    }
+
+    const marker = ordered ? `${index++}.` : '-';
+    const text = collapseWhitespace(textParts.join(' '));
+    if (text) lines.push(`${indent}${marker} ${text}`);
+
+    nestedLists.forEach(nested => {
+      const nestedText = renderList(nested, depth + 1);
+      if (nestedText) lines.push(nestedText);
+    });
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Render a table as a Markdown table, using the first row as the header
+ * @returns The table and its caption, or null if the table has no text
+ */
+const renderTable = (table: HTMLElement): { text: string; caption?: string } | null => {
+  const rows = table.querySelectorAll('tr')
+    .filter(row => row.closest('table') === table)
+    .map(row => row.childNodes
+      .filter((cell): cell is HTMLElement =>
+        cell instanceof HTMLElement && ['td', 'th'].includes(cell.rawTagName.toLowerCase()))
+      .map(cell => collapseWhitespace(cell.structuredText).replace(/\|/g, '\\|')))
+    .filter(cells => cells.some(cell => cell !== ''));
+
+  if (rows.length === 0) return null;
+
+  const columnCount = Math.max(...rows.map(cells => cells.length));
+  const pad = (cells: string[]) => cells.concat(Array(columnCount - cells.length).fill(''));
+  const formatRow = (cells: string[]) => `| ${pad(cells).join(' | ')} |`;
+
+  const lines = [
+    formatRow(rows[0]),
+    formatRow(Array(columnCount).fill('---')),
+    ...rows.slice(1).map(formatRow)
+  ];
+
+  const caption = collapseWhitespace(table.querySelector('caption')?.text || '') || undefined;
+  return { text: lines.join('\n'), caption };
+};
+
+/**
+ * Group blocks into sections, tracking the heading path of each section
+ */
+const groupSections = (blocks: HtmlBlock[]): HtmlSection[] => {
+  const sections: HtmlSection[] = [];
+  const headingStack: { level: number; text: string }[] = [];
+  let current: PendingSection = { headings: [], level: 0, lines: [], tables: [] };
+
+  const pushCurrent = () => {
+    // Skip sections that contain nothing but their heading
+    const hasBody = current.lines.length > (current.level > 0 ? 1 : 0);
+    if (hasBody) {
+      sections.push({ headings: current.headings, content: current.lines.join('\n\n'), contentType: 'text' });
+    }
+    sections.push(...current.tables);
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      pushCurrent();
+
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level: block.level, text: block.text });
+
+      current = {
+        headings: headingStack.map(heading => heading.text),
+        level: block.level,
+        lines: [`${'#'.repeat(block.level)} ${block.text}`],
+        tables: []
+      };
+    } else if (block.type === 'table') {
+      // A table starts with the heading it sits under and its caption, so it can be read on its own
+      const heading = current.level > 0 ? [current.lines[0]] : [];
+      const caption = block.caption ? [`Table: ${block.caption}`] : [];
+      current.tables.push({
+        headings: current.headings,
+        content: [...heading, ...caption, block.text].join('\n\n'),
+        contentType: 'table',
+        caption: block.caption
+      });
+    } else {
+      current.lines.push(block.text);
+    }
+  }
+
+  pushCurrent();
+  return sections;
+};
+
+/**
+ * Collapse runs of whitespace (including non-breaking spaces) into single spaces
+ */
+export const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
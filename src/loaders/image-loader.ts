@@ -0,0 +1,154 @@
+/**
+ * Image Document Loader
+ *
+ * This loader extracts text from images (PNG, JPEG, TIFF) using OCR.
+ * Multi-page TIFFs produce one document per page. The EXIF capture date,
+ * when present, is stored on every document.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import * as ExifParser from 'exif-parser';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { OcrEngine } from './ocr';
+
+/**
+ * Metadata for documents produced by OCR
+ */
+export interface OcrDocumentMetadata extends BaseDocumentMetadata {
+  ocrConfidence: number;    // Mean OCR confidence for the page (0-100)
+  capturedAt?: string;      // ISO timestamp from EXIF DateTimeOriginal
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff'
+};
+
+export class ImageLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new image loader
+   * @param filePath Path to the image file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the image using OCR
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    const ocr = new OcrEngine();
+
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      const buffer = fs.readFileSync(this.filePath);
+      const imageMetadata = await sharp(buffer).metadata();
+      const totalPages = imageMetadata.pages || 1;
+      const capturedAt = readCaptureDate(imageMetadata.exif);
+
+      const fileName = path.basename(this.filePath);
+      const extension = path.extname(this.filePath).toLowerCase();
+      const createdAt = new Date().toISOString();
+      const documents: Document[] = [];
+
+      for (let page = 0; page < totalPages; page++) {
+        // Multi-page images (TIFF) are split so each page is recognised separately
+        const pageImage = totalPages > 1
+          ? await sharp(buffer, { page }).png().toBuffer()
+          : buffer;
+        const { text, confidence } = await ocr.recognize(pageImage);
+
+        if (!text) {
+          console.warn(`Warning: No text recognised on page ${page + 1} of ${this.filePath}`);
+          continue;
+        }
+
+        const metadata: OcrDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType: extension.replace('.', ''),
+          mimeType: MIME_TYPES[extension] || 'application/octet-stream',
+          fileId: this.fileId,
+          pageNumber: page + 1,
+          totalPages,
+          ocrConfidence: confidence,
+          capturedAt,
+          createdAt
+        };
+
+        documents.push(new Document({ pageContent: text, metadata }));
+      }
+
+      return documents;
+    } catch (error) {
+      console.error(`Error loading image file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading image',
+        this.filePath
+      );
+    } finally {
+      await ocr.terminate();
+    }
+  }
+}
+
+/**
+ * Read the EXIF capture date from the raw EXIF block reported by sharp.
+ * exif-parser only understands JPEG, so the block is wrapped in a
+ * minimal JPEG APP1 segment, which also works for PNG and TIFF sources.
+ */
+const readCaptureDate = (exif?: Buffer): string | undefined => {
+  if (!exif || exif.length === 0) return undefined;
+
+  try {
+    const segmentLength = Buffer.alloc(2);
+    segmentLength.writeUInt16BE(exif.length + 2);
+    const jpeg = Buffer.concat([
+      Buffer.from([0xff, 0xd8, 0xff, 0xe1]),
+      segmentLength,
+      exif,
+      Buffer.from([0xff, 0xd9])
+    ]);
+
+    const { tags } = ExifParser.create(jpeg).parse();
+    const timestamp = tags.DateTimeOriginal || tags.CreateDate || tags.ModifyDate;
+
+    // exif-parser reports dates as seconds since the epoch
+    return typeof timestamp === 'number' ? new Date(timestamp * 1000).toISOString() : undefined;
+  } catch (error) {
+    console.warn('Warning: Could not parse EXIF data:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Registration for the image loader
+ */
+export const imageLoaderRegistration: LoaderRegistration = {
+  name: 'image',
+  fileTypes: MIME_TYPES,
+  signatures: [
+    { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], mimeType: 'image/png' },
+    { bytes: [0xff, 0xd8, 0xff], mimeType: 'image/jpeg' },
+    { bytes: [0x49, 0x49, 0x2a, 0x00], mimeType: 'image/tiff' }, // Little-endian
+    { bytes: [0x4d, 0x4d, 0x00, 0x2a], mimeType: 'image/tiff' }  // Big-endian
+  ],
+  create: (filePath, fileId) => new ImageLoader(filePath, fileId)
+};
@@ -1,21 +1,72 @@
 /**
  * Document Loader Factory
  * 
- * This file exports a factory function to get the appropriate document loader
- * based on file type, as well as re-exports all loader classes.
+ * This file registers the built-in document loaders and exports factory
+ * functions to get the appropriate loader for a file, as well as re-exports
+ * all loader classes. Files are routed by content sniffing and extension.
  */
 
+import * as fs from 'fs';
 import * as path from 'path';
 import { DocumentLoader } from './base-loader';
-import { PDFLoader } from './pdf-loader';
-import { DocxLoader } from './docx-loader';
-import { TextLoader } from './text-loader';
+import { IsolatedDocumentLoader, LoaderLimits } from './isolated-loader';
+import { TextLoader, textLoaderRegistration } from './text-loader';
+import { pdfLoaderRegistration } from './pdf-loader';
+import { docxLoaderRegistration } from './docx-loader';
+import { spreadsheetLoaderRegistration } from './spreadsheet-loader';
+import { pptxLoaderRegistration } from './pptx-loader';
+import { imageLoaderRegistration } from './image-loader';
+import { htmlLoaderRegistration } from './html-loader';
+import { emailLoaderRegistration } from './email-loader';
+import { archiveLoaderRegistration } from './archive-loader';
+import { markdownLoaderRegistration } from './markdown-loader';
+import { codeLoaderRegistration } from './code-loader';
+import { epubLoaderRegistration } from './epub-loader';
+import { odtLoaderRegistration } from './odt-loader';
+import { rtfLoaderRegistration } from './rtf-loader';
+import { LoaderRegistration, registerLoader, resolveLoader, findLoaderByExtension, getMimeTypeForExtension, sniffLoader, sniffMimeType } from './registry';
 
 // Re-export all loaders
 export * from './base-loader';
+export * from './registry';
 export * from './pdf-loader';
 export * from './docx-loader';
 export * from './text-loader';
+export * from './spreadsheet-loader';
+export * from './pptx-loader';
+export * from './image-loader';
+export * from './html-loader';
+export * from './email-loader';
+export * from './archive-loader';
+export * from './markdown-loader';
+export * from './code-loader';
+export * from './epub-loader';
+export * from './odt-loader';
+export * from './rtf-loader';
+export * from './isolated-loader';
+export * from './ocr';
+export * from './text-encoding';
+
+// The built-in loaders. The archive loader matches any ZIP file, so it is
+// registered first to let ZIP based document formats take precedence.
+const BUILT_IN_LOADERS: LoaderRegistration[] = [
+  archiveLoaderRegistration,
+  textLoaderRegistration,
+  markdownLoaderRegistration,
+  codeLoaderRegistration,
+  pdfLoaderRegistration,
+  docxLoaderRegistration,
+  spreadsheetLoaderRegistration,
+  pptxLoaderRegistration,
+  imageLoaderRegistration,
+  htmlLoaderRegistration,
+  emailLoaderRegistration,
+  epubLoaderRegistration,
+  odtLoaderRegistration,
+  rtfLoaderRegistration
+];
+
+BUILT_IN_LOADERS.forEach(registerLoader);
 
 /**
  * Get the appropriate document loader for a file
@@ -24,56 +75,73 @@ export * from './text-loader';
  * @returns A document loader instance
  */
 export const getDocumentLoader = (filePath: string, fileId?: string): DocumentLoader => {
+  const registration = resolveLoader(filePath);
+
+  if (registration) {
+    return registration.create(filePath, fileId);
+  }
+
+  // For unknown types, try to read as text
   const extension = path.extname(filePath).toLowerCase();
-  
-  switch (extension) {
-    case '.pdf':
-      return new PDFLoader(filePath, fileId);
-    case '.docx':
-      return new DocxLoader(filePath, fileId);
-    case '.txt':
-    case '.md':
-      return new TextLoader(filePath, fileId);
-    default:
-      // For unknown types, try to read as text
-      console.warn(`No specific loader for extension ${extension}, using TextLoader as fallback`);
-      return new TextLoader(filePath, fileId);
+  console.warn(`No specific loader for extension ${extension}, using TextLoader as fallback`);
+  return new TextLoader(filePath, fileId);
+};
+
+/**
+ * Get a loader for a file that runs in a worker thread with time and memory
+ * limits. The worker has the built-in loaders, and imports those registered
+ * at runtime with a modulePath; loaders registered without one only exist in
+ * this process, so they are run here, without the limits.
+ * @param filePath Path to the file
+ * @param fileId Optional ID from the file catalog
+ * @param limits Optional overrides for the time and memory limits
+ * @returns A document loader instance
+ */
+export const getIsolatedDocumentLoader = (
+  filePath: string,
+  fileId?: string,
+  limits: Partial<LoaderLimits> = {}
+): DocumentLoader => {
+  const registration = resolveLoader(filePath);
+  const isBuiltIn = BUILT_IN_LOADERS.some(builtIn => builtIn.create === registration?.create);
+
+  if (registration && !isBuiltIn && !registration.modulePath) {
+    console.warn(`Loader ${registration.name} has no modulePath for the loader worker; loading ${filePath} without isolation`);
+    return registration.create(filePath, fileId);
   }
+
+  return new IsolatedDocumentLoader(filePath, fileId, limits);
 };
 
 /**
- * Check if a file type is supported
+ * Check if a file type is supported, either by its extension or,
+ * for files on disk, by sniffing its content
  * @param filePath Path to the file
  * @returns True if the file type is supported
  */
 export const isSupportedFileType = (filePath: string): boolean => {
   if (!filePath) return false;
-  
-  const extension = path.extname(filePath).toLowerCase();
-  const supportedExtensions = ['.pdf', '.docx', '.txt', '.md'];
-  
-  return supportedExtensions.includes(extension);
+
+  if (findLoaderByExtension(path.extname(filePath))) {
+    return true;
+  }
+
+  return fs.existsSync(filePath) && sniffLoader(filePath) !== undefined;
 };
 
 /**
- * Get MIME type from file extension
+ * Get MIME type of a file. Recognised binary content takes precedence
+ * over the extension, matching how files are routed to loaders.
  * @param filePath Path to the file
  * @returns MIME type string
  */
 export const getMimeTypeFromPath = (filePath: string): string => {
-  const extension = path.extname(filePath).toLowerCase();
-  
-  const mimeMap: Record<string, string> = {
-    '.pdf': 'application/pdf',
-    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    '.txt': 'text/plain',
-    '.md': 'text/markdown',
-    '.html': 'text/html',
-    '.htm': 'text/html',
-    '.csv': 'text/csv',
-    '.json': 'application/json',
-    '.xml': 'application/xml'
-  };
-  
-  return mimeMap[extension] || 'application/octet-stream';
-}; 
\ No newline at end of file
+  const sniffedMimeType = sniffMimeType(filePath);
+  if (sniffedMimeType) return sniffedMimeType;
+
+  const mimeType = getMimeTypeForExtension(path.extname(filePath));
+  if (mimeType) return mimeType;
+
+  // Fall back to text patterns for files without a known extension
+  return sniffMimeType(filePath, true) || 'application/octet-stream';
+};
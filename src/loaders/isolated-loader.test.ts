@@ -0,0 +1,66 @@
+/**
+ * Isolated Loader Tests
+ *
+ * Files are loaded through the real loader worker, from its bootstrap file,
+ * the way the knowledge base update loads them.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IsolatedDocumentLoader, IsolatedLoaderError } from './isolated-loader';
+import { getIsolatedDocumentLoader } from './index';
+
+const MARKDOWN = [
+  '---',
+  'title: Travel policy',
+  'tags: travel, policy',
+  '---',
+  '# Booking',
+  'Book trains at least a week ahead.',
+  '',
+  '# Expenses',
+  'Keep every receipt.'
+].join('\n');
+
+describe('IsolatedDocumentLoader', () => {
+  let directory: string;
+  let markdownPath: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'isolated-loader-'));
+    markdownPath = path.join(directory, 'policy.md');
+    fs.writeFileSync(markdownPath, MARKDOWN);
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads a file with a built-in loader in the worker', async () => {
+    const loader = getIsolatedDocumentLoader(markdownPath, 'file-1');
+    assert.ok(loader instanceof IsolatedDocumentLoader);
+
+    const documents = await loader.load();
+
+    assert.deepEqual(documents.map(document => document.pageContent), [
+      '# Booking\nBook trains at least a week ahead.',
+      '# Expenses\nKeep every receipt.'
+    ]);
+    assert.equal(documents[0].metadata.fileId, 'file-1');
+    assert.equal(documents[0].metadata.title, 'Travel policy');
+    assert.deepEqual(documents[0].metadata.tags, ['travel', 'policy']);
+  });
+
+  it('reports a loader failure from the worker', async () => {
+    const loader = new IsolatedDocumentLoader(path.join(directory, 'missing.md'));
+
+    await assert.rejects(loader.load(), (error: Error) => {
+      assert.ok(!(error instanceof IsolatedLoaderError));
+      assert.match(error.message, /File does not exist/);
+      return true;
+    });
+  });
+});
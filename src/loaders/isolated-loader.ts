@@ -0,0 +1,217 @@
+/**
+ * Isolated Document Loader
+ *
+ * Runs the loader for a file in a worker thread, so a malformed file that
+ * hangs a parser or exhausts the heap cannot stall the process that is
+ * updating the knowledge base. The worker is killed when it exceeds its time
+ * or memory limit and the failure is reported with a specific reason.
+ */
+
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { Document } from '@langchain/core/documents';
+import { StreamingDocumentLoader, DocumentLoadingError } from './base-loader';
+import { getRegisteredLoaders, resolveLoader } from './registry';
+
+/**
+ * Limits applied to a loader worker
+ */
+export interface LoaderLimits {
+  timeoutMs: number;        // Total time the loader may spend producing documents
+  memoryLimitMb: number;    // Maximum heap size of the worker
+}
+
+/**
+ * Why an isolated loader was stopped
+ */
+export type LoaderFailureReason = 'timeout' | 'oom' | 'crash';
+
+/**
+ * Error thrown when a loader worker hits a limit or dies
+ */
+export class IsolatedLoaderError extends DocumentLoadingError {
+  constructor(message: string, filePath: string, public readonly reason: LoaderFailureReason) {
+    super(message, filePath);
+    this.name = 'IsolatedLoaderError';
+  }
+}
+
+/**
+ * Data passed to the loader worker on startup
+ */
+export interface LoaderWorkerData {
+  filePath: string;
+  fileId?: string;
+  loaderName?: string;      // Loader resolved for the file in the parent, run by the worker too
+  runtimeLoaders: { name: string; modulePath: string }[]; // Loaders registered at runtime, for the worker to import
+}
+
+// Messages from the parent to the worker; each asks for the next document
+export type LoaderWorkerRequest = { type: 'next' };
+
+// Messages from the worker to the parent
+export type LoaderWorkerResponse =
+  | { type: 'document'; pageContent: string; metadata: Record<string, any> }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+// Limits can be set in the environment; the defaults allow for slow OCR of large scans
+const DEFAULT_LOADER_LIMITS: LoaderLimits = {
+  timeoutMs: parseInt(process.env.LOADER_TIMEOUT_MS || '', 10) || 5 * 60 * 1000,
+  memoryLimitMb: parseInt(process.env.LOADER_MEMORY_LIMIT_MB || '', 10) || 1024
+};
+
+// The worker entry is resolved from the project root rather than this module,
+// whose location changes once Next.js bundles it
+const LOADER_WORKER_PATH = path.join(process.cwd(), 'src', 'loaders', 'loader-worker.js');
+
+export class IsolatedDocumentLoader implements StreamingDocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+  private limits: LoaderLimits;
+
+  /**
+   * Create a new isolated loader
+   * @param filePath Path to the file
+   * @param fileId Optional ID from the file catalog
+   * @param limits Optional overrides for the time and memory limits
+   */
+  constructor(filePath: string, fileId?: string, limits: Partial<LoaderLimits> = {}) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+    this.limits = { ...DEFAULT_LOADER_LIMITS, ...limits };
+  }
+
+  /**
+   * Load all documents from the file in a worker thread
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    const docs: Document[] = [];
+    for await (const doc of this.loadStream()) {
+      docs.push(doc);
+    }
+    return docs;
+  }
+
+  /**
+   * Stream documents from the file, loaded in a worker thread. Documents
+   * are requested one at a time, and only the time spent waiting for the
+   * worker counts towards the timeout.
+   * @returns Async iterator of Document objects
+   */
+  async *loadStream(): AsyncGenerator<Document> {
+    const workerData: LoaderWorkerData = {
+      filePath: this.filePath,
+      fileId: this.fileId,
+      loaderName: resolveLoader(this.filePath)?.name,
+      // In registration order, so the worker resolves loaders the same way
+      runtimeLoaders: getRegisteredLoaders()
+        .reverse()
+        .flatMap(({ name, modulePath }) => modulePath ? [{ name, modulePath }] : [])
+    };
+    const worker = new Worker(LOADER_WORKER_PATH, {
+      workerData,
+      resourceLimits: { maxOldGenerationSizeMb: this.limits.memoryLimitMb }
+    });
+    const requestDocument = this.connect(worker);
+    let remainingMs = this.limits.timeoutMs;
+
+    try {
+      while (true) {
+        const startedAt = Date.now();
+        const response = await requestDocument(remainingMs);
+        remainingMs -= Date.now() - startedAt;
+
+        if (response.type === 'done') return;
+
+        yield new Document({
+          pageContent: response.pageContent,
+          metadata: response.metadata
+        });
+      }
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  /**
+   * Listen to a new worker for as long as it runs, so a failure between two
+   * requests is reported by the next one instead of going unhandled
+   * @param worker The loader worker
+   * @returns Function asking the worker for its next document and waiting
+   * for the answer, given the time left before the loader is stopped
+   */
+  private connect(
+    worker: Worker
+  ): (timeoutMs: number) => Promise<Exclude<LoaderWorkerResponse, { type: 'error' }>> {
+    type PendingRequest = {
+      resolve: (response: Exclude<LoaderWorkerResponse, { type: 'error' }>) => void;
+      reject: (error: Error) => void;
+    };
+    let pending: PendingRequest | null = null;
+    let failure: Error | null = null;
+
+    const settle = (): PendingRequest | null => {
+      const request = pending;
+      pending = null;
+      return request;
+    };
+
+    const fail = (error: Error) => {
+      failure = failure || error;
+      settle()?.reject(failure);
+    };
+
+    worker.on('message', (response: LoaderWorkerResponse) => {
+      const request = settle();
+      if (!request) return;
+
+      if (response.type === 'error') {
+        request.reject(new DocumentLoadingError(response.message, this.filePath));
+      } else {
+        request.resolve(response);
+      }
+    });
+
+    worker.on('error', (error: Error & { code?: string }) => {
+      fail(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? new IsolatedLoaderError(`Loader exceeded the ${this.limits.memoryLimitMb} MB memory limit`, this.filePath, 'oom')
+        : new IsolatedLoaderError(`Loader worker failed: ${error.message}`, this.filePath, 'crash'));
+    });
+
+    worker.on('exit', (exitCode: number) => {
+      fail(new IsolatedLoaderError(`Loader worker exited unexpectedly with code ${exitCode}`, this.filePath, 'crash'));
+    });
+
+    return timeoutMs => new Promise((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        settle();
+        reject(new IsolatedLoaderError(
+          `Loader timed out after ${this.limits.timeoutMs / 1000} seconds`,
+          this.filePath,
+          'timeout'
+        ));
+      }, Math.max(0, timeoutMs));
+
+      pending = {
+        resolve: response => {
+          clearTimeout(timer);
+          resolve(response);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      const request: LoaderWorkerRequest = { type: 'next' };
+      worker.postMessage(request);
+    });
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Loader Worker Bootstrap
+ *
+ * Worker threads are started from a file on disk, outside the Next.js bundle,
+ * so IsolatedDocumentLoader starts this plain JavaScript file. It registers
+ * the TypeScript loader and then runs the worker from its source.
+ */
+
+const path = require('path');
+const { register } = require('tsx/cjs/api');
+
+register();
+require(path.join(__dirname, 'loader-worker.ts'));
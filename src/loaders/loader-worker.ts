@@ -0,0 +1,72 @@
+/**
+ * Loader Worker
+ *
+ * Entry point of the worker thread started by IsolatedDocumentLoader. The
+ * loaders registered at runtime in the parent are imported from their
+ * modules, the file is loaded with the loader the parent resolved for it,
+ * and each document is sent to the parent when it asks for the next one, so
+ * documents never pile up in the message queue.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { parentPort, workerData } from 'worker_threads';
+import { Document } from '@langchain/core/documents';
+import { getDocumentLoader, getRegisteredLoaders, registerLoader, LoaderRegistration } from './index';
+import { streamDocuments } from './base-loader';
+import type { LoaderWorkerData, LoaderWorkerRequest, LoaderWorkerResponse } from './isolated-loader';
+
+const { filePath, fileId, loaderName, runtimeLoaders } = workerData as LoaderWorkerData;
+
+/**
+ * Register the runtime loaders and open the documents of the file
+ */
+const openDocuments = async (): Promise<AsyncGenerator<Document>> => {
+  for (const { name, modulePath } of runtimeLoaders) {
+    const specifier = path.isAbsolute(modulePath) ? pathToFileURL(modulePath).href : modulePath;
+    const exports: Record<string, unknown> = await import(/* webpackIgnore: true */ specifier);
+    const registration = Object.values(exports).find((value): value is LoaderRegistration =>
+      typeof value === 'object' && value !== null && (value as LoaderRegistration).name === name);
+
+    if (!registration) {
+      throw new Error(`Module ${modulePath} does not export a registration for the ${name} loader`);
+    }
+    registerLoader(registration);
+  }
+
+  if (!loaderName) {
+    return streamDocuments(getDocumentLoader(filePath, fileId));
+  }
+
+  const registration = getRegisteredLoaders().find(candidate => candidate.name === loaderName);
+  if (!registration) {
+    throw new Error(`The ${loaderName} loader is not available in the loader worker`);
+  }
+  return streamDocuments(registration.create(filePath, fileId));
+};
+
+const documents = openDocuments();
+// Failures are reported in answer to the first request
+documents.catch(() => undefined);
+
+const respond = (response: LoaderWorkerResponse) => {
+  parentPort?.postMessage(response);
+};
+
+parentPort?.on('message', async (request: LoaderWorkerRequest) => {
+  if (request.type !== 'next') return;
+
+  try {
+    const result = await (await documents).next();
+    if (result.done) {
+      respond({ type: 'done' });
+      return;
+    }
+
+    // Metadata is sent as plain JSON, which is how the vector store keeps it
+    const { pageContent, metadata } = result.value;
+    respond({ type: 'document', pageContent, metadata: JSON.parse(JSON.stringify(metadata)) });
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,317 @@
+/**
+ * Markdown Document Loader
+ *
+ * This loader reads Markdown files, producing one document per heading
+ * section. YAML front matter is parsed into the `frontMatter` metadata field
+ * instead of being embedded as text. Its `title`, `tags` and `date` fields are
+ * also copied to the top level of the metadata, where vector store filters
+ * can reach them (e.g. `tags CONTAINS 'policy'`). Each document keeps its
+ * heading path and the relative links found in its section.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { decodeText, isLowConfidenceDecoding } from './text-encoding';
+
+/**
+ * Metadata for documents produced from Markdown sections
+ */
+export interface MarkdownDocumentMetadata extends BaseDocumentMetadata {
+  frontMatter?: Record<string, FrontMatterValue>; // Fields from the YAML front matter
+  title?: string;           // Front matter title
+  tags?: string[];          // Front matter tags
+  date?: string;            // Front matter date, as an ISO string when it is a YAML date
+  links: string[];          // Relative links in the section, as written
+}
+
+export type FrontMatterValue = string | number | boolean | string[];
+
+/**
+ * A heading section of a Markdown document
+ */
+interface MarkdownSection {
+  headings: string[];       // Heading path, outermost first
+  content: string;          // Section text, starting with its heading line
+}
+
+// Front matter delimited by "---" lines at the very start of the file
+const FRONT_MATTER_PATTERN = /^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/;
+
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+// Inline links and images, and reference definitions
+const INLINE_LINK_PATTERN = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g;
+const REFERENCE_DEFINITION_PATTERN = /^ {0,3}\[[^\]]+\]:\s*<?(\S+?)>?(?:\s+.*)?$/gm;
+
+export class MarkdownLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new Markdown loader
+   * @param filePath Path to the Markdown file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the Markdown file, one per heading section
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      const { text, encoding, confidence } = decodeText(fs.readFileSync(this.filePath));
+
+      if (isLowConfidenceDecoding(confidence)) {
+        console.warn(`Warning: Low confidence (${confidence}%) decoding ${this.filePath} as ${encoding}`);
+      }
+
+      const { frontMatter, body } = this.splitFrontMatter(text);
+      const filterFields = frontMatter ? extractFilterFields(frontMatter) : {};
+      const sections = extractMarkdownSections(body);
+
+      const fileName = path.basename(this.filePath);
+      const fileType = path.extname(this.filePath).toLowerCase().replace('.', '') || 'md';
+      const createdAt = new Date().toISOString();
+
+      const documents = sections.map((section, index) => {
+        const metadata: MarkdownDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType,
+          mimeType: 'text/markdown',
+          fileId: this.fileId,
+          headingPath: section.headings.join(' > '),
+          sectionTitle: section.headings[section.headings.length - 1],
+          sectionNumber: index + 1,
+          totalSections: sections.length,
+          frontMatter,
+          ...filterFields,
+          links: extractRelativeLinks(section.content),
+          encoding,
+          encodingConfidence: confidence,
+          createdAt
+        };
+
+        return new Document({
+          pageContent: section.content,
+          metadata
+        });
+      });
+
+      if (documents.length === 0) {
+        console.warn(`Warning: No text extracted from Markdown file ${this.filePath}`);
+      }
+
+      return documents;
+    } catch (error) {
+      console.error(`Error loading Markdown file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading Markdown',
+        this.filePath
+      );
+    }
+  }
+
+  /**
+   * Separate the YAML front matter from the Markdown body.
+   * Invalid front matter is kept as part of the body.
+   */
+  private splitFrontMatter(text: string): { frontMatter?: Record<string, FrontMatterValue>; body: string } {
+    const match = text.match(FRONT_MATTER_PATTERN);
+    if (!match) return { body: text };
+
+    try {
+      const parsed = yaml.load(match[1]);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { body: text };
+      }
+
+      return {
+        frontMatter: normalizeFrontMatter(parsed as Record<string, unknown>),
+        body: text.substring(match[0].length)
+      };
+    } catch (error) {
+      console.warn(`Warning: Could not parse front matter in ${this.filePath}:`, error);
+      return { body: text };
+    }
+  }
+}
+
+/**
+ * Convert front matter values into types that can be stored as vector
+ * metadata: dates become ISO strings, lists become string arrays and
+ * nested objects are stored as JSON
+ */
+const normalizeFrontMatter = (data: Record<string, unknown>): Record<string, FrontMatterValue> => {
+  const normalized: Record<string, FrontMatterValue> = {};
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+
+    if (value instanceof Date) {
+      normalized[key] = value.toISOString();
+    } else if (Array.isArray(value)) {
+      normalized[key] = value
+        .filter(item => item !== null && item !== undefined)
+        .map(item => item instanceof Date ? item.toISOString() : typeof item === 'object' ? JSON.stringify(item) : String(item));
+    } else if (typeof value === 'object') {
+      normalized[key] = JSON.stringify(value);
+    } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      normalized[key] = value;
+    }
+  });
+
+  return normalized;
+};
+
+/**
+ * Pick the front matter fields stored at the top level of the metadata.
+ * Tags are always a list, so they can be matched with CONTAINS; a single
+ * string is split on commas
+ */
+const extractFilterFields = (
+  frontMatter: Record<string, FrontMatterValue>
+): Pick<MarkdownDocumentMetadata, 'title' | 'tags' | 'date'> => {
+  const { title, tags, date } = frontMatter;
+  const fields: Pick<MarkdownDocumentMetadata, 'title' | 'tags' | 'date'> = {};
+
+  if (title !== undefined && !Array.isArray(title)) fields.title = String(title);
+  if (date !== undefined && !Array.isArray(date)) fields.date = String(date);
+
+  if (Array.isArray(tags)) {
+    fields.tags = tags;
+  } else if (typeof tags === 'string') {
+    fields.tags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+
+  return fields;
+};
+
+/**
+ * Split Markdown text into heading sections.
+ * ATX ("# Title") and setext (underlined) headings are recognised; lines
+ * inside fenced code blocks are never treated as headings.
+ */
+const extractMarkdownSections = (markdown: string): MarkdownSection[] => {
+  const lines = markdown.split('\n');
+  const sections: MarkdownSection[] = [];
+  const headingStack: { level: number; text: string }[] = [];
+  let current = { headings: [] as string[], hasHeading: false, lines: [] as string[] };
+  let fence: string | null = null;
+
+  const pushCurrent = () => {
+    const content = current.lines.join('\n').trim();
+    // Skip sections that contain nothing but their heading
+    const bodyLines = current.lines.slice(current.hasHeading ? 1 : 0);
+    if (content && bodyLines.some(line => line.trim())) {
+      sections.push({ headings: current.headings, content });
+    }
+  };
+
+  const startSection = (level: number, text: string, headingLine: string) => {
+    pushCurrent();
+
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+      headingStack.pop();
+    }
+    headingStack.push({ level, text });
+
+    current = {
+      headings: headingStack.map(heading => heading.text),
+      hasHeading: true,
+      lines: [headingLine]
+    };
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    // Track fenced code blocks so their contents are left alone
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      current.lines.push(line);
+      continue;
+    }
+
+    if (fence) {
+      current.lines.push(line);
+      continue;
+    }
+
+    const atxMatch = line.match(ATX_HEADING_PATTERN);
+    if (atxMatch && atxMatch[2]) {
+      startSection(atxMatch[1].length, atxMatch[2].trim(), line.trim());
+      continue;
+    }
+
+    // A setext underline turns the previous paragraph line into a heading
+    const next = lines[index + 1];
+    if (line.trim() && next !== undefined && SETEXT_UNDERLINE_PATTERN.test(next) && !isBlockSyntax(line)) {
+      const level = next.trim().startsWith('=') ? 1 : 2;
+      const text = line.trim();
+      startSection(level, text, `${'#'.repeat(level)} ${text}`);
+      index++;
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+
+  pushCurrent();
+  return sections;
+};
+
+/**
+ * Check whether a line is list, quote or table syntax, which cannot
+ * become a setext heading
+ */
+const isBlockSyntax = (line: string): boolean => {
+  return /^\s*([-*+>|]|\d+[.)])\s/.test(line);
+};
+
+/**
+ * Collect the unique relative link targets in a section.
+ * Absolute URLs, protocol-relative URLs and in-page anchors are ignored.
+ */
+const extractRelativeLinks = (content: string): string[] => {
+  const targets = [
+    ...Array.from(content.matchAll(INLINE_LINK_PATTERN), match => match[1]),
+    ...Array.from(content.matchAll(REFERENCE_DEFINITION_PATTERN), match => match[1])
+  ];
+
+  return Array.from(new Set(targets.filter(isRelativeLink)));
+};
+
+const isRelativeLink = (target: string): boolean => {
+  return !/^[a-z][a-z0-9+.-]*:/i.test(target) && !target.startsWith('//') && !target.startsWith('#');
+};
+
+/**
+ * Registration for the Markdown loader
+ */
+export const markdownLoaderRegistration: LoaderRegistration = {
+  name: 'markdown',
+  fileTypes: { '.md': 'text/markdown', '.markdown': 'text/markdown' },
+  create: (filePath, fileId) => new MarkdownLoader(filePath, fileId)
+};
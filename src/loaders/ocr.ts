@@ -0,0 +1,251 @@
+/**
+ * OCR Utilities
+ *
+ * This file provides optical character recognition for loaders that deal
+ * with images and scanned PDFs. Images are normalised with sharp before
+ * being passed to tesseract.js, and scanned PDF pages are turned into
+ * images by extracting the raster images painted on the page.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker, Worker } from 'tesseract.js';
+import type { PDFPageProxy } from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+
+/**
+ * Result of recognising a single image
+ */
+export interface OcrResult {
+  text: string;
+  confidence: number;       // Mean word confidence reported by tesseract (0-100)
+}
+
+// Languages passed to tesseract, e.g. "eng" or "eng+deu"
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng';
+
+// Optional directory of *.traineddata(.gz) files for every language. By default the language
+// data is read from the installed @tesseract.js-data/<language> package (English is a
+// dependency); it is never downloaded
+const OCR_LANG_PATH = process.env.OCR_LANG_PATH;
+
+// Directory of the installed language data packages, which hold the integer LSTM models that
+// tesseract.js uses by default under 4.0.0_best_int
+const LANG_PACKAGES_PATH = path.join(process.cwd(), 'node_modules', '@tesseract.js-data');
+
+/**
+ * Error for OCR language data that is not available locally
+ */
+export class OcrConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrConfigurationError';
+  }
+}
+
+/**
+ * Find the local language data for the configured languages
+ * @returns The directory to read it from, and whether the files are gzipped
+ * @throws OcrConfigurationError if a language has no local data
+ */
+const resolveLanguageData = (): { langPath: string; gzip: boolean } => {
+  const languages = OCR_LANGUAGES.split('+').filter(Boolean);
+  const hasData = (directory: string, extension: string) =>
+    languages.every(language => fs.existsSync(path.join(directory, `${language}${extension}`)));
+
+  if (OCR_LANG_PATH) {
+    if (hasData(OCR_LANG_PATH, '.traineddata.gz')) return { langPath: OCR_LANG_PATH, gzip: true };
+    if (hasData(OCR_LANG_PATH, '.traineddata')) return { langPath: OCR_LANG_PATH, gzip: false };
+    throw new OcrConfigurationError(
+      `OCR_LANG_PATH (${OCR_LANG_PATH}) must contain <language>.traineddata or <language>.traineddata.gz ` +
+      `for every language in OCR_LANGUAGES (${OCR_LANGUAGES})`
+    );
+  }
+
+  // Without OCR_LANG_PATH, a single language can be read from its package
+  const packagePath = path.join(LANG_PACKAGES_PATH, languages[0] || '', '4.0.0_best_int');
+  if (languages.length === 1 && hasData(packagePath, '.traineddata.gz')) {
+    return { langPath: packagePath, gzip: true };
+  }
+  throw new OcrConfigurationError(
+    languages.length === 1
+      ? `No OCR language data for "${languages[0]}": install @tesseract.js-data/${languages[0]} or set OCR_LANG_PATH`
+      : `OCR_LANGUAGES (${OCR_LANGUAGES}) lists several languages: set OCR_LANG_PATH to a directory with ` +
+        'the traineddata files of all of them'
+  );
+};
+
+// Images smaller than this (in pixels on the short side) are upscaled before OCR
+const MIN_OCR_DIMENSION = 1000;
+
+/**
+ * Wrapper around a tesseract.js worker.
+ * The worker is created on first use and must be released with terminate().
+ */
+export class OcrEngine {
+  private worker: Promise<Worker> | null = null;
+
+  /**
+   * Recognise text in an image
+   * @param image Encoded image (PNG, JPEG, TIFF, ...)
+   * @returns The recognised text and its confidence
+   */
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const worker = await this.getWorker();
+    const prepared = await prepareImage(image);
+    const { data } = await worker.recognize(prepared);
+
+    return {
+      text: data.text.trim(),
+      confidence: Math.round(data.confidence * 100) / 100
+    };
+  }
+
+  /**
+   * Release the underlying tesseract worker
+   */
+  async terminate(): Promise<void> {
+    if (!this.worker) return;
+
+    const worker = await this.worker;
+    this.worker = null;
+    await worker.terminate();
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const { langPath, gzip } = resolveLanguageData();
+      this.worker = createWorker(OCR_LANGUAGES, undefined, { langPath, gzip });
+    }
+    return this.worker;
+  }
+}
+
+/**
+ * Normalise an image for OCR: greyscale, stretched contrast and a
+ * minimum resolution, encoded as PNG (which tesseract always accepts)
+ */
+const prepareImage = async (image: Buffer): Promise<Buffer> => {
+  const pipeline = sharp(image).rotate().greyscale().normalise();
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  const shortSide = Math.min(width, height);
+
+  if (shortSide > 0 && shortSide < MIN_OCR_DIMENSION) {
+    const scale = MIN_OCR_DIMENSION / shortSide;
+    pipeline.resize(Math.round(width * scale), Math.round(height * scale));
+  }
+
+  return pipeline.png().toBuffer();
+};
+
+// pdf.js image kinds (see ImageKind in pdf.js)
+const IMAGE_KIND_GRAYSCALE_1BPP = 1;
+const IMAGE_KIND_RGB_24BPP = 2;
+const IMAGE_KIND_RGBA_32BPP = 3;
+
+// pdf.js operators that paint raster images
+const OPS_PAINT_IMAGE_XOBJECT = 85;
+const OPS_PAINT_INLINE_IMAGE_XOBJECT = 86;
+
+/**
+ * Extract the largest raster image painted on each requested PDF page.
+ * Scanned documents store every page as a single full-page image, so this
+ * yields one image per scanned page without needing a canvas to render.
+ *
+ * @param data Contents of the PDF file
+ * @param pageNumbers 1-based numbers of the pages to extract
+ * @returns Map of page number to PNG image
+ */
+export const extractPdfPageImages = async (
+  data: Buffer,
+  pageNumbers: number[]
+): Promise<Map<number, Buffer>> => {
+  const { default: pdfjs } = await import('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    // Decode JPEGs in pdf.js instead of relying on a browser image decoder
+    nativeImageDecoderSupport: 'none',
+    disableFontFace: true
+  });
+  const images = new Map<number, Buffer>();
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      if (pageNumber < 1 || pageNumber > pdf.numPages) continue;
+
+      const png = await extractPdfPageImage(await pdf.getPage(pageNumber));
+      if (png) images.set(pageNumber, png);
+    }
+  } finally {
+    pdf.destroy();
+  }
+
+  return images;
+};
+
+/**
+ * Extract the largest raster image painted on a PDF page that is already
+ * open. The document must be opened with nativeImageDecoderSupport "none".
+ *
+ * @param page The pdf.js page
+ * @returns The image as PNG, or null if the page paints no images
+ */
+export const extractPdfPageImage = async (page: PDFPageProxy): Promise<Buffer | null> => {
+  const operatorList = await page.getOperatorList();
+  let largest: PdfImageData | null = null;
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const operator = operatorList.fnArray[i];
+    let image: PdfImageData | null = null;
+
+    if (operator === OPS_PAINT_IMAGE_XOBJECT) {
+      image = page.objs.get(operatorList.argsArray[i][0]);
+    } else if (operator === OPS_PAINT_INLINE_IMAGE_XOBJECT) {
+      image = operatorList.argsArray[i][0];
+    }
+
+    if (image && (!largest || image.width * image.height > largest.width * largest.height)) {
+      largest = image;
+    }
+  }
+
+  return largest ? pdfImageToPng(largest) : null;
+};
+
+interface PdfImageData {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * Encode decoded pdf.js image data as PNG
+ */
+const pdfImageToPng = async (image: PdfImageData): Promise<Buffer | null> => {
+  const { width, height, kind, data } = image;
+
+  if (kind === IMAGE_KIND_RGB_24BPP || kind === IMAGE_KIND_RGBA_32BPP) {
+    const channels = kind === IMAGE_KIND_RGB_24BPP ? 3 : 4;
+    return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+      raw: { width, height, channels }
+    }).png().toBuffer();
+  }
+
+  if (kind === IMAGE_KIND_GRAYSCALE_1BPP) {
+    // Unpack 1 bit per pixel rows (padded to whole bytes); set bits are white
+    const rowBytes = Math.ceil(width / 8);
+    const pixels = Buffer.alloc(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const byte = data[y * rowBytes + (x >> 3)];
+        pixels[y * width + x] = byte & (0x80 >> (x & 7)) ? 255 : 0;
+      }
+    }
+
+    return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+  }
+
+  return null;
+};
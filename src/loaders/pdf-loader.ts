@@ -1,16 +1,38 @@
 /**
  * PDF Document Loader
  * 
- * This loader extracts text from PDF files using the PDFLoader from LangChain.
+ * This loader extracts text from PDF files page by page with pdf.js, the
+ * same parser used by LangChain's PDFLoader. Pages are streamed one at a
+ * time, and the file is read from disk as pages need it, so large PDFs are
+ * never held in memory as a whole.
+ * Pages without a text layer (scanned pages) fall back to OCR. Tables found
+ * on a page are emitted as documents of their own, after the page's text.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { Document } from '@langchain/core/documents';
-import { PDFLoader as LangChainPDFLoader } from '@langchain/community/document_loaders/fs/pdf';
-import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import type { PDFDataRangeTransport, PDFPageProxy } from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+import { StreamingDocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { OcrEngine, extractPdfPageImage } from './ocr';
+import { extractPageTables } from './pdf-tables';
 
-export class PDFLoader implements DocumentLoader {
+/**
+ * Metadata for PDF page documents
+ */
+export interface PDFDocumentMetadata extends BaseDocumentMetadata {
+  pdf: {                    // Document information, as reported by LangChain's PDFLoader
+    version: string;
+    info?: unknown;
+    metadata?: unknown;
+    totalPages: number;
+  };
+  loc: { pageNumber: number };
+  ocrConfidence?: number;   // Set when the page text was recognised with OCR
+}
+
+export class PDFLoader implements StreamingDocumentLoader {
   private filePath: string;
   private fileId?: string;
   
@@ -29,44 +51,170 @@ export class PDFLoader implements DocumentLoader {
    * @returns Promise resolving to an array of Document objects
    */
   async load(): Promise<Document[]> {
+    const docs: Document[] = [];
+    for await (const doc of this.loadStream()) {
+      docs.push(doc);
+    }
+    return docs;
+  }
+  
+  /**
+   * Stream documents from the PDF file, one per page with text and one per table
+   * @returns Async iterator of Document objects in page order
+   */
+  async *loadStream(): AsyncGenerator<Document> {
+    const ocr = new OcrEngine();
+    let fd: number | undefined;
+    
     try {
       // Check if file exists
       if (!fs.existsSync(this.filePath)) {
         throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
       }
       
-      // Use LangChain's PDFLoader
-      const loader = new LangChainPDFLoader(this.filePath);
-      const docs = await loader.load();
-      
-      // Enhance documents with additional metadata
-      const fileName = path.basename(this.filePath);
-      const enhancedDocs = docs.map((doc, index) => {
-        const metadata: BaseDocumentMetadata = {
-          ...doc.metadata,
-          source: this.filePath,
-          fileName,
-          fileType: 'pdf',
-          mimeType: 'application/pdf',
-          fileId: this.fileId,
-          pageNumber: doc.metadata.loc?.pageNumber || index + 1,
-          totalPages: docs.length,
-          createdAt: new Date().toISOString()
-        };
-        
-        return new Document({
-          pageContent: doc.pageContent,
-          metadata
-        });
+      const { default: pdfjs } = await import('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+      fd = fs.openSync(this.filePath, 'r');
+      const pdf = await pdfjs.getDocument({
+        range: createFileRangeTransport(pdfjs.PDFDataRangeTransport, fd),
+        rangeChunkSize: RANGE_CHUNK_SIZE,
+        // Decode JPEGs in pdf.js so scanned pages can be passed to OCR
+        nativeImageDecoderSupport: 'none',
+        disableFontFace: true
       });
       
-      return enhancedDocs;
+      try {
+        const info = await pdf.getMetadata().catch(() => null);
+        const totalPages = pdf.numPages;
+        const fileName = path.basename(this.filePath);
+        const createdAt = new Date().toISOString();
+        
+        for (let pageNumber = 1; pageNumber <= totalPages; pageNumber++) {
+          const page = await pdf.getPage(pageNumber);
+          const textContent = await page.getTextContent();
+          const pageContent = extractPageTables(textContent.items);
+          const { tables } = pageContent;
+          let { text } = pageContent;
+          let ocrConfidence: number | undefined;
+          
+          if (!text.trim() && tables.length === 0) {
+            const result = await this.recognizeScannedPage(page, ocr);
+            if (result) {
+              text = result.text;
+              ocrConfidence = result.confidence;
+            }
+          }
+          
+          page.cleanup();
+          
+          const metadata: PDFDocumentMetadata = {
+            pdf: {
+              version: pdfjs.version,
+              info: info?.info,
+              metadata: info?.metadata,
+              totalPages
+            },
+            loc: { pageNumber },
+            source: this.filePath,
+            fileName,
+            fileType: 'pdf',
+            mimeType: 'application/pdf',
+            fileId: this.fileId,
+            pageNumber,
+            totalPages,
+            createdAt
+          };
+          
+          if (ocrConfidence !== undefined) {
+            metadata.ocrConfidence = ocrConfidence;
+          }
+          
+          if (text.trim()) {
+            yield new Document({
+              pageContent: text,
+              metadata
+            });
+          }
+          
+          for (const table of tables) {
+            yield new Document({
+              pageContent: table.content,
+              metadata: { ...metadata, contentType: 'table', tableCaption: table.caption }
+            });
+          }
+        }
+      } finally {
+        pdf.destroy();
+      }
     } catch (error) {
       console.error(`Error loading PDF file ${this.filePath}:`, error);
       throw new DocumentLoadingError(
         error instanceof Error ? error.message : 'Unknown error loading PDF',
         this.filePath
       );
+    } finally {
+      if (fd !== undefined) {
+        fs.closeSync(fd);
+      }
+      await ocr.terminate();
     }
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Recognise the text of a scanned page with OCR
+   * @param page A page that has no text layer
+   * @param ocr OCR engine shared by the pages of the file
+   * @returns The OCR result, or null if the page has no image or text
+   */
+  private async recognizeScannedPage(
+    page: PDFPageProxy,
+    ocr: OcrEngine
+  ): Promise<{ text: string; confidence: number } | null> {
+    const image = await extractPdfPageImage(page);
+    if (!image) {
+      return null;
+    }
+    
+    console.log(`Running OCR on scanned page ${page.pageNumber} of ${this.filePath}`);
+    const result = await ocr.recognize(image);
+    return result.text ? result : null;
+  }
+}
+
+// Bytes read from the file at a time as pdf.js asks for them
+const RANGE_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Create a transport giving pdf.js the parts of an open file it asks for.
+ * pdf.js would otherwise go on to fetch the rest of the file in the
+ * background, so that is switched off for all documents loaded from ranges.
+ * @param Transport The PDFDataRangeTransport class of the pdf.js build
+ * @param fd Descriptor of the open PDF file
+ */
+const createFileRangeTransport = (
+  Transport: typeof PDFDataRangeTransport,
+  fd: number
+): PDFDataRangeTransport => {
+  const settings = (globalThis as { PDFJS?: { disableAutoFetch?: boolean } }).PDFJS;
+  if (settings) {
+    settings.disableAutoFetch = true;
+  }
+
+  const transport = new Transport(fs.fstatSync(fd).size, null);
+  transport.requestDataRange = (begin, end) => {
+    const chunk = Buffer.alloc(end - begin);
+    const bytesRead = fs.readSync(fd, chunk, 0, chunk.length, begin);
+    // pdf.js expects the data to arrive after the request returns
+    setImmediate(() => transport.onDataRange(begin, new Uint8Array(chunk.buffer, chunk.byteOffset, bytesRead)));
+  };
+  return transport;
+};
+
+/**
+ * Registration for the PDF loader
+ */
+export const pdfLoaderRegistration: LoaderRegistration = {
+  name: 'pdf',
+  fileTypes: { '.pdf': 'application/pdf' },
+  signatures: [{ bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }], // "%PDF-"
+  create: (filePath, fileId) => new PDFLoader(filePath, fileId)
+};
@@ -0,0 +1,129 @@
+/**
+ * PDF Table Detection
+ *
+ * PDF pages hold positioned runs of text with no notion of tables. This file
+ * groups the text of a page into lines and finds tables as runs of lines
+ * that wide horizontal gaps split into the same number of columns. Tables
+ * are rendered as Markdown tables, using their first line as the header,
+ * together with a caption ("Table 3: ...") found on the line above or below.
+ */
+
+import type { PDFTextContent } from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+
+type TextItem = PDFTextContent['items'][number];
+
+/**
+ * A table found on a PDF page
+ */
+export interface PdfTable {
+  content: string;          // Caption, if any, followed by the Markdown table
+  caption?: string;
+}
+
+// Gap between runs of text, in multiples of the font size, that separates table cells
+const CELL_GAP = 1.5;
+// Gap, in multiples of the font size, above which the runs of a cell are separated by a space
+const WORD_GAP = 0.2;
+// Lines needed to make a table: a header row and at least two data rows
+const MIN_TABLE_LINES = 3;
+// Longest average cell length; longer "cells" are columns of prose, as in two-column layouts
+const MAX_AVERAGE_CELL_LENGTH = 40;
+const CAPTION_PATTERN = /^\s*(?:Table|Tab\.)\s*[\dIVX]+\b/i;
+
+/**
+ * Split the text of a page into its tables and the remaining text
+ * @param items Text items of the page, in content order
+ * @returns The page text without its tables and their captions, and the tables in page order
+ */
+export const extractPageTables = (items: TextItem[]): { text: string; tables: PdfTable[] } => {
+  const lines = groupLines(items);
+  const cells = lines.map(splitCells);
+  const tableLines = new Set<number>();
+  const tables: PdfTable[] = [];
+
+  for (let start = 0; start < lines.length;) {
+    const columnCount = cells[start].length;
+    let end = start + 1;
+    while (columnCount >= 2 && end < lines.length && cells[end].length === columnCount) end++;
+
+    const rows = cells.slice(start, end);
+    if (columnCount >= 2 && rows.length >= MIN_TABLE_LINES && averageCellLength(rows) <= MAX_AVERAGE_CELL_LENGTH) {
+      for (let index = start; index < end; index++) tableLines.add(index);
+
+      const captionLine = [start - 1, end].find(index =>
+        index >= 0 && index < lines.length && !tableLines.has(index) && CAPTION_PATTERN.test(lineText(lines[index])));
+      const caption = captionLine !== undefined ? lineText(lines[captionLine]).trim() : undefined;
+      if (captionLine !== undefined) tableLines.add(captionLine);
+
+      const table = renderTable(rows);
+      tables.push({ content: caption ? `${caption}\n\n${table}` : table, caption });
+    }
+    start = end;
+  }
+
+  const text = lines
+    .filter((_, index) => !tableLines.has(index))
+    .map(lineText)
+    .join('\n');
+  return { text, tables };
+};
+
+/**
+ * Group text items into lines, starting a new line whenever the vertical
+ * position of the text changes (as LangChain's PDFLoader does)
+ */
+const groupLines = (items: TextItem[]): TextItem[][] => {
+  const lines: TextItem[][] = [];
+  let lastY: number | undefined;
+
+  for (const item of items) {
+    const y = item.transform[5];
+    if (lastY === undefined || lastY !== y) lines.push([]);
+    lines[lines.length - 1].push(item);
+    lastY = y;
+  }
+  return lines;
+};
+
+const lineText = (line: TextItem[]): string => line.map(item => item.str).join('');
+
+/**
+ * Split a line into cells at gaps wider than CELL_GAP
+ */
+const splitCells = (line: TextItem[]): string[] => {
+  const cells: string[] = [];
+  let previous: TextItem | undefined;
+
+  for (const item of line) {
+    if (!item.str.trim()) continue;
+
+    if (!previous) {
+      cells.push(item.str);
+    } else {
+      const gap = item.transform[4] - (previous.transform[4] + previous.width);
+      const fontSize = Math.hypot(previous.transform[2], previous.transform[3]) || previous.height;
+      if (gap > fontSize * CELL_GAP) {
+        cells.push(item.str);
+      } else {
+        cells[cells.length - 1] += (gap > fontSize * WORD_GAP ? ' ' : '') + item.str;
+      }
+    }
+    previous = item;
+  }
+
+  return cells.map(cell => cell.replace(/\s+/g, ' ').trim());
+};
+
+const averageCellLength = (rows: string[][]): number => {
+  const cells = rows.flat();
+  return cells.reduce((total, cell) => total + cell.length, 0) / cells.length;
+};
+
+const renderTable = (rows: string[][]): string => {
+  const formatRow = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    formatRow(rows[0]),
+    formatRow(rows[0].map(() => '---')),
+    ...rows.slice(1).map(formatRow)
+  ].join('\n');
+};
@@ -0,0 +1,289 @@
+/**
+ * PPTX Document Loader
+ *
+ * This loader extracts text from PowerPoint (PPTX) files, producing one
+ * document per slide. Speaker notes are appended to the slide text so that
+ * they are searchable alongside the slide content.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+
+/**
+ * Metadata for documents produced from slides
+ */
+export interface SlideDocumentMetadata extends BaseDocumentMetadata {
+  slideTitle?: string;      // Text of the slide's title placeholder
+  hasNotes: boolean;        // Whether the slide has speaker notes
+}
+
+const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export class PptxLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new PPTX loader
+   * @param filePath Path to the PPTX file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the PPTX file, one per slide
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      // A PPTX file is a zip archive of XML parts
+      const buffer = fs.readFileSync(this.filePath);
+      const zip = await JSZip.loadAsync(buffer);
+
+      const slidePaths = await getSlidePaths(zip);
+      const fileName = path.basename(this.filePath);
+      const createdAt = new Date().toISOString();
+      const documents: Document[] = [];
+
+      for (let index = 0; index < slidePaths.length; index++) {
+        const slidePath = slidePaths[index];
+        const slideXml = await readZipText(zip, slidePath);
+        if (!slideXml) continue;
+
+        const slideTitle = extractSlideTitle(slideXml);
+        const slideText = extractParagraphs(slideXml).join('\n');
+
+        const notesPath = await getNotesPath(zip, slidePath);
+        const notesXml = notesPath ? await readZipText(zip, notesPath) : null;
+        const notesText = notesXml ? extractParagraphs(stripFields(notesXml)).join('\n') : '';
+
+        // Skip slides with nothing to say (e.g. image-only slides without notes)
+        if (!slideText && !notesText) continue;
+
+        const slideNumber = index + 1;
+        const sections = [`Slide ${slideNumber}${slideTitle ? `: ${slideTitle}` : ''}`];
+        if (slideText) sections.push(slideText);
+        if (notesText) sections.push(`Speaker notes:\n${notesText}`);
+
+        const metadata: SlideDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType: 'pptx',
+          mimeType: PPTX_MIME_TYPE,
+          fileId: this.fileId,
+          pageNumber: slideNumber,
+          totalPages: slidePaths.length,
+          slideTitle,
+          hasNotes: notesText.length > 0,
+          createdAt
+        };
+
+        documents.push(new Document({
+          pageContent: sections.join('\n\n'),
+          metadata
+        }));
+      }
+
+      if (documents.length === 0) {
+        console.warn(`Warning: No text extracted from PPTX file ${this.filePath}`);
+      }
+
+      return documents;
+    } catch (error) {
+      console.error(`Error loading PPTX file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading PPTX',
+        this.filePath
+      );
+    }
+  }
+}
+
+/**
+ * Read a part of the package as text, or null if it does not exist
+ */
+const readZipText = async (zip: JSZip, partPath: string): Promise<string | null> => {
+  const file = zip.file(partPath);
+  return file ? file.async('string') : null;
+};
+
+/**
+ * Parse a relationships part into a map of relationship ID to target path.
+ * Targets are resolved relative to the folder of the source part.
+ */
+const readRelationships = async (
+  zip: JSZip,
+  sourcePartPath: string
+): Promise<Map<string, { type: string; target: string }>> => {
+  const relsPath = path.posix.join(
+    path.posix.dirname(sourcePartPath),
+    '_rels',
+    `${path.posix.basename(sourcePartPath)}.rels`
+  );
+  const relsXml = await readZipText(zip, relsPath);
+  const relationships = new Map<string, { type: string; target: string }>();
+  if (!relsXml) return relationships;
+
+  const relationshipPattern = /<Relationship\b([^>]*)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = relationshipPattern.exec(relsXml)) !== null) {
+    const id = getAttribute(match[1], 'Id');
+    const type = getAttribute(match[1], 'Type');
+    const target = getAttribute(match[1], 'Target');
+    if (!id || !target) continue;
+
+    // Absolute targets are relative to the package root
+    const resolvedTarget = target.startsWith('/')
+      ? target.substring(1)
+      : path.posix.normalize(path.posix.join(path.posix.dirname(sourcePartPath), target));
+
+    relationships.set(id, { type: type || '', target: resolvedTarget });
+  }
+
+  return relationships;
+};
+
+/**
+ * Get slide part paths in presentation order.
+ * Falls back to the numeric order of slide file names if the
+ * presentation part cannot be read.
+ */
+const getSlidePaths = async (zip: JSZip): Promise<string[]> => {
+  const presentationPath = 'ppt/presentation.xml';
+  const presentationXml = await readZipText(zip, presentationPath);
+
+  if (presentationXml) {
+    const relationships = await readRelationships(zip, presentationPath);
+    const slideIdPattern = /<p:sldId\b([^>]*)\/?>/g;
+    const orderedPaths: string[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = slideIdPattern.exec(presentationXml)) !== null) {
+      const relationshipId = getAttribute(match[1], 'r:id');
+      const relationship = relationshipId ? relationships.get(relationshipId) : undefined;
+      if (relationship) {
+        orderedPaths.push(relationship.target);
+      }
+    }
+
+    if (orderedPaths.length > 0) {
+      return orderedPaths;
+    }
+  }
+
+  const slideNumber = (name: string) => parseInt(name.match(/slide(\d+)\.xml$/)?.[1] || '0', 10);
+  return Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+};
+
+/**
+ * Find the notes part linked to a slide, if any
+ */
+const getNotesPath = async (zip: JSZip, slidePath: string): Promise<string | null> => {
+  const relationships = await readRelationships(zip, slidePath);
+
+  for (const relationship of Array.from(relationships.values())) {
+    if (relationship.type.endsWith('/notesSlide')) {
+      return relationship.target;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get the text of the title placeholder on a slide
+ */
+const extractSlideTitle = (slideXml: string): string | undefined => {
+  const shapePattern = /<p:sp\b[\s\S]*?<\/p:sp>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = shapePattern.exec(slideXml)) !== null) {
+    if (/<p:ph\b[^>]*type="(title|ctrTitle)"/.test(match[0])) {
+      const title = extractParagraphs(match[0]).join(' ');
+      return title || undefined;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Remove field elements (slide numbers, dates) from notes so they
+ * are not mistaken for note text
+ */
+const stripFields = (xml: string): string => xml.replace(/<a:fld\b[\s\S]*?<\/a:fld>/g, '');
+
+/**
+ * Extract the text of every DrawingML paragraph in document order
+ */
+const extractParagraphs = (xml: string): string[] => {
+  const paragraphs: string[] = [];
+  // Empty paragraphs are self-closing (<a:p/>) and must not be read as an opening tag
+  const paragraphPattern = /<a:p\b(?![^>]*\/>)[^>]*>([\s\S]*?)<\/a:p>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = paragraphPattern.exec(xml)) !== null) {
+    const runs: string[] = [];
+    const textPattern = /<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g;
+    let textMatch: RegExpExecArray | null;
+
+    while ((textMatch = textPattern.exec(match[1])) !== null) {
+      runs.push(textMatch[1] !== undefined ? decodeXmlEntities(textMatch[1]) : '\n');
+    }
+
+    const text = runs.join('').trim();
+    if (text) {
+      paragraphs.push(text);
+    }
+  }
+
+  return paragraphs;
+};
+
+/**
+ * Read an attribute value from the attribute section of an XML tag
+ */
+const getAttribute = (attributes: string, name: string): string | undefined => {
+  const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = attributes.match(new RegExp(`(?:^|\\s)${escapedName}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+};
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+const decodeXmlEntities = (text: string): string => {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Registration for the PPTX loader
+ */
+export const pptxLoaderRegistration: LoaderRegistration = {
+  name: 'pptx',
+  fileTypes: { '.pptx': PPTX_MIME_TYPE },
+  // A ZIP archive containing the "ppt/" part folder
+  signatures: [{ bytes: [0x50, 0x4b, 0x03, 0x04], pattern: /ppt\// }],
+  create: (filePath, fileId) => new PptxLoader(filePath, fileId)
+};
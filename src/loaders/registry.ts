@@ -0,0 +1,251 @@
+/**
+ * Document Loader Registry
+ *
+ * This file keeps track of the available document loaders. Each loader
+ * declares the file extensions, MIME types and content signatures it handles,
+ * and files are routed to a loader by sniffing their content as well as by
+ * their name. Loaders outside this folder can call registerLoader() to add
+ * support for new formats; giving the registration a modulePath lets the
+ * isolated loader worker run them too.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentLoader } from './base-loader';
+
+/**
+ * A content signature identifying a file format
+ */
+export interface ContentSignature {
+  bytes?: number[];         // Magic bytes expected at `offset`
+  offset?: number;          // Offset of the magic bytes (defaults to 0)
+  pattern?: RegExp;         // Pattern tested against the file header decoded as latin1
+  mimeType?: string;        // MIME type of matching files, if not the loader's first
+}
+
+/**
+ * Describes a loader and the files it can handle
+ */
+export interface LoaderRegistration {
+  name: string;             // Unique loader name, e.g. "pdf"
+  fileTypes: Record<string, string>; // Extension including the dot -> MIME type, e.g. { ".pdf": "application/pdf" }
+  signatures?: ContentSignature[];
+  create: (filePath: string, fileId?: string) => DocumentLoader;
+  modulePath?: string;      // Module exporting this registration, imported by the isolated loader worker to run it there
+}
+
+// Number of bytes read from the start of a file for sniffing.
+// Large enough to see the first few entry names of ZIP based formats.
+const SNIFF_LENGTH = 8192;
+
+const registrations: LoaderRegistration[] = [];
+
+/**
+ * Register a loader. A loader registered with the name of an existing loader
+ * replaces it, and later registrations take precedence when formats overlap.
+ * @param registration The loader to register
+ */
+export const registerLoader = (registration: LoaderRegistration): void => {
+  const fileTypes: Record<string, string> = {};
+  Object.entries(registration.fileTypes).forEach(([extension, mimeType]) => {
+    fileTypes[normalizeExtension(extension)] = mimeType.toLowerCase();
+  });
+
+  const normalized: LoaderRegistration = { ...registration, fileTypes };
+
+  const existingIndex = registrations.findIndex(existing => existing.name === registration.name);
+  if (existingIndex !== -1) {
+    registrations.splice(existingIndex, 1);
+  }
+
+  registrations.push(normalized);
+};
+
+/**
+ * Get all registered loaders, most recently registered first
+ */
+export const getRegisteredLoaders = (): LoaderRegistration[] => {
+  return registrations.slice().reverse();
+};
+
+/**
+ * Get every file extension handled by a registered loader
+ */
+export const getSupportedExtensions = (): string[] => {
+  return uniqueValues(registrations.flatMap(registration => Object.keys(registration.fileTypes)));
+};
+
+/**
+ * Get every MIME type handled by a registered loader
+ */
+export const getSupportedMimeTypes = (): string[] => {
+  return uniqueValues(registrations.flatMap(registration => Object.values(registration.fileTypes)));
+};
+
+/**
+ * Find the loader for a file extension (with or without the leading dot)
+ */
+export const findLoaderByExtension = (extension: string): LoaderRegistration | undefined => {
+  const normalized = normalizeExtension(extension);
+  return getRegisteredLoaders().find(registration => normalized in registration.fileTypes);
+};
+
+/**
+ * Get the MIME type registered for a file extension
+ */
+export const getMimeTypeForExtension = (extension: string): string | undefined => {
+  return findLoaderByExtension(extension)?.fileTypes[normalizeExtension(extension)];
+};
+
+/**
+ * Find the loader for a MIME type
+ */
+export const findLoaderByMimeType = (mimeType: string): LoaderRegistration | undefined => {
+  const normalized = mimeType.toLowerCase().split(';')[0].trim();
+  return getRegisteredLoaders().find(registration =>
+    Object.values(registration.fileTypes).includes(normalized));
+};
+
+/**
+ * Find the loader whose signature matches the start of a file.
+ * Binary magic bytes are checked before text patterns.
+ * @param filePath Path to the file
+ * @param includeTextPatterns Whether to also test text patterns
+ */
+export const sniffLoader = (
+  filePath: string,
+  includeTextPatterns: boolean = true
+): LoaderRegistration | undefined => {
+  return findSignatureMatch(filePath, includeTextPatterns)?.registration;
+};
+
+/**
+ * Detect the MIME type of a file from its content
+ * @param filePath Path to the file
+ * @param includeTextPatterns Whether to also test text patterns
+ * @returns The MIME type, or undefined if no signature matches
+ */
+export const sniffMimeType = (
+  filePath: string,
+  includeTextPatterns: boolean = false
+): string | undefined => {
+  const match = findSignatureMatch(filePath, includeTextPatterns);
+  if (!match) return undefined;
+
+  return match.signature.mimeType || Object.values(match.registration.fileTypes)[0];
+};
+
+/**
+ * Resolve the loader for a file.
+ * Magic bytes win over the file name, so a PDF saved as ".txt" is still read
+ * as a PDF. Text patterns are only used when the extension is unknown.
+ * @param filePath Path to the file
+ * @returns The matching loader, or undefined if the file is not supported
+ */
+export const resolveLoader = (filePath: string): LoaderRegistration | undefined => {
+  const byExtension = findLoaderByExtension(path.extname(filePath));
+  const match = findSignatureMatch(filePath, false);
+
+  if (match) {
+    const byMagicBytes = match.registration;
+
+    // A generic container signature (e.g. any ZIP file) does not override an
+    // extension whose loader reads that container format
+    if (byExtension && !match.signature.pattern && sharesMagicBytes(byExtension, match.signature)) {
+      return byExtension;
+    }
+
+    if (byExtension && byExtension.name !== byMagicBytes.name) {
+      console.warn(`Content of ${filePath} looks like ${byMagicBytes.name}, not ${byExtension.name}; routing by content`);
+    }
+    return byMagicBytes;
+  }
+
+  return byExtension || sniffLoader(filePath);
+};
+
+/**
+ * Find the first registered signature matching the header of a file
+ */
+const findSignatureMatch = (
+  filePath: string,
+  includeTextPatterns: boolean
+): { registration: LoaderRegistration; signature: ContentSignature } | undefined => {
+  const header = readHeader(filePath);
+  if (!header) return undefined;
+
+  const loaders = getRegisteredLoaders();
+  const passes = includeTextPatterns ? [true, false] : [true];
+
+  for (const binary of passes) {
+    for (const registration of loaders) {
+      const signature = (registration.signatures || []).find(candidate =>
+        (candidate.bytes !== undefined) === binary && matchesSignature(header, candidate));
+
+      if (signature) {
+        return { registration, signature };
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Read the first bytes of a file, or null if it cannot be read
+ */
+const readHeader = (filePath: string): Buffer | null => {
+  let fd: number | null = null;
+
+  try {
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return null;
+    }
+
+    fd = fs.openSync(filePath, 'r');
+    const buffer = Buffer.alloc(SNIFF_LENGTH);
+    const bytesRead = fs.readSync(fd, buffer, 0, SNIFF_LENGTH, 0);
+    return buffer.subarray(0, bytesRead);
+  } catch (error) {
+    console.error(`Error reading header of ${filePath}:`, error);
+    return null;
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+};
+
+/**
+ * Check whether a file header matches a signature
+ */
+const matchesSignature = (header: Buffer, signature: ContentSignature): boolean => {
+  if (signature.bytes) {
+    const offset = signature.offset || 0;
+    if (header.length < offset + signature.bytes.length) return false;
+
+    const bytesMatch = signature.bytes.every((byte, index) => header[offset + index] === byte);
+    if (!bytesMatch) return false;
+  }
+
+  if (signature.pattern) {
+    return signature.pattern.test(header.toString('latin1'));
+  }
+
+  return signature.bytes !== undefined;
+};
+
+/**
+ * Check whether a loader declares a signature with the given magic bytes
+ */
+const sharesMagicBytes = (registration: LoaderRegistration, signature: ContentSignature): boolean => {
+  return (registration.signatures || []).some(candidate =>
+    candidate.bytes !== undefined &&
+    (candidate.offset || 0) === (signature.offset || 0) &&
+    candidate.bytes.join(',') === (signature.bytes || []).join(','));
+};
+
+const normalizeExtension = (extension: string): string => {
+  const lower = extension.toLowerCase();
+  return lower.startsWith('.') ? lower : `.${lower}`;
+};
+
+const uniqueValues = (values: string[]): string[] => Array.from(new Set(values));
@@ -0,0 +1,275 @@
+/**
+ * RTF Document Loader
+ *
+ * This loader extracts text from Rich Text Format files by stripping control
+ * words and skipping non-text destinations (font tables, styles, pictures,
+ * metadata). Hex escapes are decoded with the document's ANSI code page and
+ * Unicode escapes are honoured. The document is split at section breaks.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as iconv from 'iconv-lite';
+import { Document } from '@langchain/core/documents';
+import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+
+// Destinations whose content is not part of the document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'objdata',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'footnote', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'generator',
+  'xmlnsdecl', 'themedata', 'colorschememapping', 'datastore', 'latentstyles',
+  'filetbl', 'fldinst', 'pntxta', 'pntxtb', 'private'
+]);
+
+// Control words that stand for a character or a break
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  page: '\n',
+  row: '\n',
+  tab: '\t',
+  cell: ' | ',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' '
+};
+
+// Marks a \sect break in the extracted text
+const SECTION_BREAK = '\f';
+
+interface GroupState {
+  skip: boolean;            // Inside a destination that is not rendered
+  unicodeSkip: number;      // Fallback characters following each \u escape (\uc)
+}
+
+export class RtfLoader implements DocumentLoader {
+  private filePath: string;
+  private fileId?: string;
+
+  /**
+   * Create a new RTF loader
+   * @param filePath Path to the RTF file
+   * @param fileId Optional ID from the file catalog
+   */
+  constructor(filePath: string, fileId?: string) {
+    this.filePath = filePath;
+    this.fileId = fileId;
+  }
+
+  /**
+   * Load documents from the RTF file, one per section
+   * @returns Promise resolving to an array of Document objects
+   */
+  async load(): Promise<Document[]> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+
+      // RTF is 7-bit; non-ASCII text is escaped, so latin1 keeps every byte
+      const rtf = fs.readFileSync(this.filePath, 'latin1');
+      if (!rtf.trimStart().startsWith('{\\rtf')) {
+        throw new DocumentLoadingError('Not an RTF document', this.filePath);
+      }
+
+      const sections = extractRtfText(rtf)
+        .split(SECTION_BREAK)
+        .map(normalizeWhitespace)
+        .filter(section => section.length > 0);
+
+      if (sections.length === 0) {
+        console.warn(`Warning: No text extracted from RTF file ${this.filePath}`);
+      }
+
+      const fileName = path.basename(this.filePath);
+      const createdAt = new Date().toISOString();
+
+      return sections.map((section, index) => {
+        const metadata: BaseDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType: 'rtf',
+          mimeType: 'application/rtf',
+          fileId: this.fileId,
+          sectionNumber: index + 1,
+          totalSections: sections.length,
+          createdAt
+        };
+
+        return new Document({
+          pageContent: section,
+          metadata
+        });
+      });
+    } catch (error) {
+      console.error(`Error loading RTF file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading RTF',
+        this.filePath
+      );
+    }
+  }
+}
+
+/**
+ * Strip RTF markup, returning the document text with section breaks
+ * marked by SECTION_BREAK
+ */
+const extractRtfText = (rtf: string): string => {
+  const output: string[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let codePage = 'windows-1252';
+  let pendingBytes: number[] = [];
+  let fallbackToSkip = 0;
+  let index = 0;
+
+  // Hex escapes are collected so multi-byte code pages decode correctly
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      output.push(iconv.decode(Buffer.from(pendingBytes), codePage));
+      pendingBytes = [];
+    }
+  };
+
+  const emit = (text: string) => {
+    if (state.skip) return;
+    flushBytes();
+    output.push(text);
+  };
+
+  while (index < rtf.length) {
+    const char = rtf[index];
+
+    if (char === '{') {
+      stack.push({ ...state });
+      index++;
+      continue;
+    }
+
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() || state;
+      fallbackToSkip = 0;
+      index++;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      index++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      // Plain text up to the next markup character
+      let end = index;
+      while (end < rtf.length && !'{}\\\r\n'.includes(rtf[end])) end++;
+      let text = rtf.substring(index, end);
+      if (fallbackToSkip > 0) {
+        const skipped = Math.min(fallbackToSkip, text.length);
+        text = text.substring(skipped);
+        fallbackToSkip -= skipped;
+      }
+      if (text) emit(text);
+      index = end;
+      continue;
+    }
+
+    const next = rtf[index + 1];
+
+    // Hex escape: \'hh
+    if (next === '\'') {
+      const byte = parseInt(rtf.substr(index + 2, 2), 16);
+      index += 4;
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else if (!state.skip && !isNaN(byte)) {
+        pendingBytes.push(byte);
+      }
+      continue;
+    }
+
+    // Ignorable destination: {\*\destination ...}
+    if (next === '*') {
+      state.skip = true;
+      index += 2;
+      continue;
+    }
+
+    // Control symbols
+    if (next === undefined || !/[a-zA-Z]/.test(next)) {
+      index += 2;
+      if (next === '{' || next === '}' || next === '\\') emit(next);
+      else if (next === '~') emit(' ');
+      else if (next === '_') emit('‑');
+      else if (next === '\r' || next === '\n') emit('\n');
+      continue;
+    }
+
+    // Control word: \word, optionally followed by a numeric parameter and a space
+    const match = rtf.substring(index + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/);
+    if (!match) {
+      index++;
+      continue;
+    }
+    index += 1 + match[0].length;
+
+    const word = match[1];
+    const parameter = match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === 'u' && parameter !== undefined) {
+      emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+      fallbackToSkip = state.unicodeSkip;
+    } else if (word === 'uc' && parameter !== undefined) {
+      state.unicodeSkip = parameter;
+    } else if (word === 'ansicpg' && parameter !== undefined) {
+      const encoding = `windows-${parameter}`;
+      codePage = iconv.encodingExists(encoding) ? encoding : `cp${parameter}`;
+      if (!iconv.encodingExists(codePage)) codePage = 'windows-1252';
+    } else if (word === 'bin' && parameter !== undefined) {
+      // Binary data of the given length follows
+      index += parameter;
+    } else if (word === 'sect') {
+      emit(SECTION_BREAK);
+    } else if (CONTROL_WORD_TEXT[word]) {
+      emit(CONTROL_WORD_TEXT[word]);
+    }
+  }
+
+  flushBytes();
+  return output.join('');
+};
+
+/**
+ * Trim trailing spaces on each line and collapse runs of blank lines
+ */
+const normalizeWhitespace = (text: string): string => {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Registration for the RTF loader
+ */
+export const rtfLoaderRegistration: LoaderRegistration = {
+  name: 'rtf',
+  fileTypes: { '.rtf': 'application/rtf' },
+  signatures: [{ bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66] }], // "{\rtf"
+  create: (filePath, fileId) => new RtfLoader(filePath, fileId)
+};
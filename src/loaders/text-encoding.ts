@@ -0,0 +1,185 @@
+/**
+ * Text Encoding Detection
+ *
+ * Helpers for turning the raw bytes of a text file into normalised UTF-8
+ * text. The encoding is taken from a byte order mark when present, then
+ * from strict UTF-8 validation, and otherwise guessed with chardet.
+ * Decoded text is NFC-normalised with consistent line endings. Large files
+ * can be decoded in pieces with an encoding detected from their first bytes.
+ */
+
+import * as chardet from 'chardet';
+import * as iconv from 'iconv-lite';
+
+/**
+ * The result of decoding a text file
+ */
+export interface DecodedText {
+  text: string;             // Decoded, normalised text
+  encoding: string;         // Detected encoding, e.g. "UTF-8" or "windows-1252"
+  confidence: number;       // Confidence in the detected encoding (0-100)
+}
+
+/**
+ * Decoder for text that is read in pieces, e.g. from a file stream
+ */
+export interface IncrementalTextDecoder {
+  encoding: string;         // Encoding detected from the sample
+  confidence: number;       // Confidence in the detected encoding (0-100)
+  write(chunk: Buffer): string; // Decode the next piece to normalised text
+  end(): string;            // Flush any text held back from the last piece
+}
+
+// Decodings with a lower confidence are reported as warnings
+export const LOW_ENCODING_CONFIDENCE = 50;
+
+// Byte order marks, longest first so UTF-32LE is not mistaken for UTF-16LE
+const BYTE_ORDER_MARKS: { encoding: string; bytes: number[] }[] = [
+  { encoding: 'UTF-32LE', bytes: [0xff, 0xfe, 0x00, 0x00] },
+  { encoding: 'UTF-32BE', bytes: [0x00, 0x00, 0xfe, 0xff] },
+  { encoding: 'UTF-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'UTF-16LE', bytes: [0xff, 0xfe] },
+  { encoding: 'UTF-16BE', bytes: [0xfe, 0xff] }
+];
+
+// Control characters other than tab, line feed and carriage return
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g;
+
+/**
+ * Detect the encoding of a buffer and decode it to normalised text
+ * @param buffer Raw file contents
+ * @returns The decoded text with the detected encoding and confidence
+ */
+export const decodeText = (buffer: Buffer): DecodedText => {
+  const { encoding, confidence, offset } = detectEncoding(buffer);
+  const decoded = iconv.decode(buffer.subarray(offset), encoding, { stripBOM: true });
+
+  return {
+    text: normalizeText(decoded),
+    encoding,
+    confidence: Math.max(0, confidence - getReplacementPenalty(decoded))
+  };
+};
+
+/**
+ * Create a decoder for a file that is read in pieces. The encoding is
+ * detected from a sample taken from the start of the file.
+ * @param sample The first bytes of the file
+ * @returns A decoder that turns each piece into normalised text
+ */
+export const createIncrementalDecoder = (sample: Buffer): IncrementalTextDecoder => {
+  const { encoding, confidence } = detectEncoding(sample, true);
+  const decoder = iconv.getDecoder(encoding, { stripBOM: true });
+
+  // A trailing "\r" is held back in case the next piece starts with "\n"
+  let pendingCarriageReturn = false;
+  const normalizePiece = (text: string, isLast: boolean): string => {
+    let piece = (pendingCarriageReturn ? '\r' : '') + text;
+    pendingCarriageReturn = !isLast && piece.endsWith('\r');
+    if (pendingCarriageReturn) piece = piece.slice(0, -1);
+    return normalizeText(piece);
+  };
+
+  return {
+    encoding,
+    confidence: Math.max(0, confidence - getReplacementPenalty(iconv.decode(sample, encoding))),
+    write: (chunk: Buffer) => normalizePiece(decoder.write(chunk), false),
+    end: () => normalizePiece(decoder.end() || '', true)
+  };
+};
+
+/**
+ * Check whether a decoding confidence is too low to trust the text
+ */
+export const isLowConfidenceDecoding = (confidence: number): boolean => {
+  return confidence < LOW_ENCODING_CONFIDENCE;
+};
+
+/**
+ * Reduce the confidence of a decoding by the share of replacement
+ * characters, which mean some bytes could not be decoded
+ */
+const getReplacementPenalty = (decoded: string): number => {
+  const replacements = (decoded.match(/\uFFFD/g) || []).length;
+  return decoded.length > 0 ? Math.round((replacements / decoded.length) * 1000) : 0;
+};
+
+/**
+ * Detect the encoding of a buffer.
+ * @param buffer Raw file contents
+ * @param isSample Whether the buffer is the start of a longer file, which
+ * may end part way through a character
+ * @returns The encoding, the confidence (0-100) and the length of any byte order mark
+ */
+const detectEncoding = (buffer: Buffer, isSample = false): { encoding: string; confidence: number; offset: number } => {
+  const byteOrderMark = BYTE_ORDER_MARKS.find(mark =>
+    mark.bytes.every((byte, index) => buffer[index] === byte));
+
+  if (byteOrderMark) {
+    return { encoding: byteOrderMark.encoding, confidence: 100, offset: byteOrderMark.bytes.length };
+  }
+
+  // Checked before UTF-8 because zero bytes are also valid UTF-8
+  const utf16 = detectUtf16WithoutBom(buffer);
+  if (utf16) {
+    return { encoding: utf16, confidence: 80, offset: 0 };
+  }
+
+  if (isValidUtf8(buffer, isSample)) {
+    return { encoding: 'UTF-8', confidence: 100, offset: 0 };
+  }
+
+  // chardet lists candidates by decreasing confidence
+  const candidate = chardet.analyse(buffer).find(match => iconv.encodingExists(match.name));
+  if (candidate) {
+    return { encoding: candidate.name, confidence: candidate.confidence, offset: 0 };
+  }
+
+  return { encoding: 'windows-1252', confidence: 0, offset: 0 };
+};
+
+/**
+ * Check whether a buffer is valid UTF-8 (plain ASCII included).
+ * A sample may end with an incomplete character.
+ */
+const isValidUtf8 = (buffer: Buffer, isSample = false): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: isSample });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Recognise UTF-16 text without a byte order mark from the position of its
+ * zero bytes, which is how mostly-ASCII UTF-16 text appears
+ */
+const detectUtf16WithoutBom = (buffer: Buffer): string | null => {
+  const sampleLength = Math.min(buffer.length, 4096) & ~1;
+  if (sampleLength < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < sampleLength; index += 2) {
+    if (buffer[index] === 0) evenZeros++;
+    if (buffer[index + 1] === 0) oddZeros++;
+  }
+
+  const pairs = sampleLength / 2;
+  if (oddZeros / pairs > 0.4 && evenZeros / pairs < 0.05) return 'UTF-16LE';
+  if (evenZeros / pairs > 0.4 && oddZeros / pairs < 0.05) return 'UTF-16BE';
+  return null;
+};
+
+/**
+ * Normalise decoded text: NFC form, "\n" line endings and no stray
+ * control characters or byte order marks
+ */
+const normalizeText = (text: string): string => {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(CONTROL_CHARACTERS, '')
+    .normalize('NFC');
+};
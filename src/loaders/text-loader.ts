@@ -2,14 +2,25 @@
  * Text Document Loader
  * 
  * This loader extracts text from plain text files (TXT, MD, etc.).
+ * The character encoding is detected and the text is transcoded to
+ * normalised UTF-8; low-confidence detections are logged as warnings.
+ * Large files can be streamed as a sequence of parts split at line breaks.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { Document } from '@langchain/core/documents';
-import { DocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { StreamingDocumentLoader, BaseDocumentMetadata, DocumentLoadingError } from './base-loader';
+import { LoaderRegistration } from './registry';
+import { decodeText, createIncrementalDecoder, isLowConfidenceDecoding } from './text-encoding';
 
-export class TextLoader implements DocumentLoader {
+// Bytes read from the start of a streamed file to detect its encoding
+const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
+// Approximate number of characters in each streamed part
+const STREAM_PART_SIZE = 64 * 1024;
+
+export class TextLoader implements StreamingDocumentLoader {
   private filePath: string;
   private fileId?: string;
   
@@ -34,8 +45,12 @@ export class TextLoader implements DocumentLoader {
         throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
       }
       
-      // Read the file as text
-      const text = fs.readFileSync(this.filePath, 'utf-8');
+      // Read the file and decode it from its detected encoding
+      const { text, encoding, confidence } = decodeText(fs.readFileSync(this.filePath));
+      
+      if (isLowConfidenceDecoding(confidence)) {
+        console.warn(`Warning: Low confidence (${confidence}%) decoding ${this.filePath} as ${encoding}`);
+      }
       
       if (!text) {
         console.warn(`Warning: Empty text file ${this.filePath}`);
@@ -61,6 +76,8 @@ export class TextLoader implements DocumentLoader {
         fileId: this.fileId,
         pageNumber: 1,
         totalPages: 1,
+        encoding,
+        encodingConfidence: confidence,
         createdAt: new Date().toISOString()
       };
       
@@ -78,4 +95,104 @@ export class TextLoader implements DocumentLoader {
       );
     }
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Stream documents from the text file. The file is read in pieces and
+   * yielded as parts of roughly STREAM_PART_SIZE characters, split at line
+   * breaks, so memory use does not grow with the file size.
+   * @returns Async iterator of Document objects, one per part
+   */
+  async *loadStream(): AsyncGenerator<Document> {
+    try {
+      // Check if file exists
+      if (!fs.existsSync(this.filePath)) {
+        throw new DocumentLoadingError(`File does not exist: ${this.filePath}`, this.filePath);
+      }
+      
+      const decoder = createIncrementalDecoder(readSample(this.filePath));
+      const { encoding, confidence } = decoder;
+      
+      if (isLowConfidenceDecoding(confidence)) {
+        console.warn(`Warning: Low confidence (${confidence}%) decoding ${this.filePath} as ${encoding}`);
+      }
+      
+      const fileName = path.basename(this.filePath);
+      const extension = path.extname(this.filePath).toLowerCase();
+      const createdAt = new Date().toISOString();
+      let partNumber = 0;
+      
+      const createPart = (text: string): Document => {
+        partNumber++;
+        const metadata: BaseDocumentMetadata = {
+          source: this.filePath,
+          fileName,
+          fileType: extension.replace('.', ''),
+          mimeType: extension === '.md' ? 'text/markdown' : 'text/plain',
+          fileId: this.fileId,
+          partNumber,
+          encoding,
+          encodingConfidence: confidence,
+          createdAt
+        };
+        
+        return new Document({
+          pageContent: text,
+          metadata
+        });
+      };
+      
+      let buffered = '';
+      for await (const chunk of fs.createReadStream(this.filePath, { highWaterMark: ENCODING_SAMPLE_SIZE })) {
+        buffered += decoder.write(chunk as Buffer);
+        
+        while (buffered.length >= STREAM_PART_SIZE) {
+          // Prefer to end the part at the last line break
+          const lineBreak = buffered.lastIndexOf('\n', STREAM_PART_SIZE);
+          const end = lineBreak > 0 ? lineBreak + 1 : STREAM_PART_SIZE;
+          const text = buffered.substring(0, end);
+          buffered = buffered.substring(end);
+          
+          if (text.trim()) yield createPart(text);
+        }
+      }
+      
+      buffered += decoder.end();
+      if (buffered.trim()) {
+        yield createPart(buffered);
+      }
+      
+      if (partNumber === 0) {
+        console.warn(`Warning: Empty text file ${this.filePath}`);
+      }
+    } catch (error) {
+      console.error(`Error streaming text file ${this.filePath}:`, error);
+      throw new DocumentLoadingError(
+        error instanceof Error ? error.message : 'Unknown error loading text file',
+        this.filePath
+      );
+    }
+  }
+}
+
+/**
+ * Read the first bytes of a file for encoding detection
+ */
+const readSample = (filePath: string): Buffer => {
+  const sample = Buffer.alloc(ENCODING_SAMPLE_SIZE);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, sample, 0, ENCODING_SAMPLE_SIZE, 0);
+    return sample.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Registration for the text loader
+ */
+export const textLoaderRegistration: LoaderRegistration = {
+  name: 'text',
+  fileTypes: { '.txt': 'text/plain' },
+  create: (filePath, fileId) => new TextLoader(filePath, fileId)
+};
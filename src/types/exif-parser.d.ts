@@ -0,0 +1,18 @@
+/**
+ * Type declarations for exif-parser.
+ * Only the parts used by the loaders are declared.
+ */
+
+declare module 'exif-parser' {
+  interface ExifResult {
+    tags: Record<string, any>;
+    imageSize?: { width: number; height: number };
+  }
+
+  interface ExifParser {
+    enableSimpleValues(enable: boolean): ExifParser;
+    parse(): ExifResult;
+  }
+
+  export function create(buffer: Buffer): ExifParser;
+}
@@ -5,6 +5,8 @@
  * which tracks metadata for all files processed by the RAG system.
  */
 
+import type { LoaderFailureReason } from '../loaders/isolated-loader';
+
 /**
  * Represents metadata for a single file in the knowledge base
  */
@@ -17,15 +19,86 @@ export interface FileMetadata {
   sourceLocation: 'google-drive' | 'manual-upload'; // Where the file came from
   driveId?: string;           // Google Drive ID if applicable
   contentHash?: string;       // Hash of content for deduplication
+  parentId?: string;          // ID of the archive this file was extracted from
+  archivePath?: string;       // Path of the file inside its parent archive
+  tags?: string[];            // Labels set by users; a tag naming a chunking profile selects it
   
   // Processing metadata
   processingStatus: 'pending' | 'success' | 'error';
   errorMessage?: string;      // Error details if processing failed
+  errorReason?: LoaderFailureReason; // Set when the loader was stopped, e.g. on 'timeout' or 'oom'
+  warnings?: string[];        // Non-fatal problems found while processing, e.g. uncertain text encoding
   processedAt?: string;       // When the file was last processed
+  progress?: ProcessingProgress; // Set while a file is only partly embedded
   
   // Chunking metadata
   chunkCount: number;         // Number of chunks created
   chunkIds: string[];         // Vector DB IDs of chunks
+  chunkHashes?: ChunkHash[];  // Hashes of the chunks, in the order of chunkIds
+  parentChunkIds?: string[];  // Parent chunk store IDs of the sections the chunks were split from
+  chunkingProfile?: AppliedChunkingProfile; // Profile the chunks were created with
+}
+
+/**
+ * The chunking profile a file was chunked with
+ */
+export interface AppliedChunkingProfile {
+  name: string;               // Name of the profile
+  settingsHash: string;       // Hash of the profile's settings, which changes when the profile is edited
+}
+
+/**
+ * Hashes of a stored chunk, compared when its file is processed again
+ */
+export interface ChunkHash {
+  content: string;            // Hash of the chunk text; a new chunk with the same text reuses the vector
+  metadata: string;           // Hash of the chunk metadata; reused vectors are updated when it differs
+}
+
+/**
+ * A chunk stored in the vector database
+ */
+export interface StoredChunk {
+  id: string;                 // Vector DB ID
+  hash: ChunkHash;
+}
+
+/**
+ * Progress of a file whose processing has not finished, recorded after each
+ * stored batch so an interrupted run can resume where it stopped
+ */
+export interface ProcessingProgress {
+  contentHash: string;        // Hash of the content being processed
+  documentsProcessed: number; // Loader documents whose chunks are all stored
+  updatedAt: string;          // ISO timestamp of the last stored batch
+  previousChunks?: StoredChunk[]; // Chunks of the previous version not reused yet; deleted when processing finishes
+  previousParentChunkIds?: string[]; // Parent sections of the previous version; those not stored again are deleted
+}
+
+/**
+ * What started a knowledge base update
+ */
+export type ProcessingTrigger = 'scheduled' | 'dashboard' | 'cli';
+
+/**
+ * One attempt at processing a file, in the file's processing history. A run
+ * is recorded when it starts and completed once when it ends; runs are never
+ * changed after that, and are kept after their file is removed from the catalog
+ */
+export interface ProcessingRun {
+  id: string;                 // Unique identifier for the run
+  fileId: string;             // ID of the file processed
+  trigger?: ProcessingTrigger; // What started the update the run was part of
+  startedAt: string;          // ISO timestamp of when processing started
+  finishedAt?: string;        // ISO timestamp of when processing ended; unset while running
+  durationMs?: number;        // Time processing took
+  status: 'running' | 'success' | 'error';
+  contentHash?: string;       // Hash of the content processed
+  loader?: string;            // Name of the loader the file was read with
+  chunkingProfile?: string;   // Name of the chunking profile selected for the file
+  embeddingModel?: string;    // Embedding model the chunks were embedded with
+  chunkCount?: number;        // Chunks the file had when processing ended
+  errorMessage?: string;      // Error details if processing failed
 }
 
 /**
@@ -34,4 +107,37 @@ export interface FileMetadata {
 export interface FileCatalog {
   lastUpdated: string;        // ISO timestamp of last catalog update
   files: Record<string, FileMetadata>; // Map of file IDs to metadata
-} 
\ No newline at end of file
+  processingRuns?: ProcessingRun[]; // Processing runs, when the catalog is kept as JSON
+} 
+
+/**
+ * File metadata without the chunk lists, as returned when listing files
+ */
+export type FileSummary = Omit<FileMetadata, 'chunkIds' | 'chunkHashes' | 'parentChunkIds'>;
+
+/**
+ * Filters, order and page of a catalog listing
+ */
+export interface CatalogQuery {
+  status?: FileMetadata['processingStatus'];
+  sourceLocation?: FileMetadata['sourceLocation'];
+  mimeType?: string;
+  tag?: string;
+  dateField: 'lastModified' | 'processedAt'; // Date the from/to range applies to
+  from?: string;              // ISO timestamp; files dated at or after it
+  to?: string;                // ISO timestamp; files dated at or before it
+  sort: 'name' | 'size' | 'lastModified' | 'processedAt' | 'chunkCount';
+  order: 'asc' | 'desc';
+  offset: number;
+  limit: number;
+}
+
+/**
+ * One page of a catalog listing
+ */
+export interface CatalogPage {
+  lastUpdated: string;        // ISO timestamp of last catalog update
+  total: number;              // Files matching the filters, on all pages
+  statusCounts: Record<FileMetadata['processingStatus'], number>; // Matching files by processing status
+  files: FileSummary[];
+}
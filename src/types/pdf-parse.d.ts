@@ -0,0 +1,53 @@
+/**
+ * Type declarations for the pdf.js build bundled with pdf-parse.
+ * Only the parts used by the loaders are declared.
+ */
+
+declare module 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js' {
+  export interface PDFOperatorList {
+    fnArray: number[];
+    argsArray: any[][];
+  }
+
+  export interface PDFTextContent {
+    items: { str: string; transform: number[]; width: number; height: number }[];
+  }
+
+  export interface PDFPageProxy {
+    pageNumber: number;
+    getOperatorList(): Promise<PDFOperatorList>;
+    getTextContent(): Promise<PDFTextContent>;
+    cleanup(): void;
+    objs: { get(objId: string): any };
+  }
+
+  export interface PDFDocumentProxy {
+    numPages: number;
+    getPage(pageNumber: number): Promise<PDFPageProxy>;
+    getMetadata(): Promise<{ info: any; metadata: any }>;
+    destroy(): void;
+  }
+
+  // Supplies the bytes of a document as pdf.js asks for them
+  export class PDFDataRangeTransport {
+    constructor(length: number, initialData: Uint8Array | null);
+    requestDataRange(begin: number, end: number): void;
+    onDataRange(begin: number, chunk: Uint8Array): void;
+  }
+
+  export interface GetDocumentParams {
+    data?: Uint8Array;
+    range?: PDFDataRangeTransport;
+    rangeChunkSize?: number;
+    nativeImageDecoderSupport?: 'decode' | 'display' | 'none';
+    disableFontFace?: boolean;
+  }
+
+  const pdfjs: {
+    version: string;
+    PDFDataRangeTransport: typeof PDFDataRangeTransport;
+    getDocument(params: GetDocumentParams): Promise<PDFDocumentProxy>;
+  };
+
+  export default pdfjs;
+}
@@ -0,0 +1,412 @@
+/**
+ * File Catalog Stores
+ *
+ * The file catalog is kept in a store: a SQLite database by default (see
+ * sqlite-catalog-store.ts), or the file-catalog.json file it was originally
+ * kept in. Stores only read and write records; the rules for adding,
+ * updating and removing files live in file-catalog.ts.
+ */
+
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import * as lockfile from 'proper-lockfile';
+import writeFileAtomic from 'write-file-atomic';
+import { CatalogPage, CatalogQuery, FileCatalog, FileMetadata, FileSummary, ProcessingRun } from '../types/file-catalog';
+import { getMimeTypeForExtension } from '../loaders';
+
+/**
+ * A lookup of files by an indexed field
+ */
+export type CatalogLookup =
+  | { name: string }          // Top-level files with this name
+  | { driveId: string }
+  | { contentHash: string }
+  | { parentId: string };     // Files extracted from an archive
+
+/**
+ * Storage backend of the file catalog
+ */
+export interface CatalogStore {
+  /** Read the whole catalog */
+  load(): FileCatalog;
+  /** Replace the files of the catalog */
+  save(catalog: FileCatalog): void;
+  getFile(id: string): FileMetadata | undefined;
+  findFiles(lookup: CatalogLookup): FileMetadata[];
+  /** List the files matching filters, one page at a time */
+  queryFiles(query: CatalogQuery): CatalogPage;
+  /**
+   * Insert or replace files
+   * @param withChunks Whether the chunk IDs and hashes of the files changed
+   */
+  putFiles(files: FileMetadata[], withChunks?: boolean): void;
+  deleteFiles(ids: string[]): void;
+  /** Processing runs of a file, oldest first */
+  getProcessingRuns(fileId: string): ProcessingRun[];
+  putProcessingRun(run: ProcessingRun): void;
+  /** Run a callback whose changes are all saved, or none if it throws */
+  transaction<T>(callback: () => T): T;
+}
+
+/**
+ * Check whether a file matches a lookup
+ */
+export const matchesLookup = (file: FileMetadata, lookup: CatalogLookup): boolean => {
+  if ('name' in lookup) return file.name === lookup.name && !file.parentId;
+  if ('driveId' in lookup) return file.driveId === lookup.driveId;
+  if ('contentHash' in lookup) return file.contentHash === lookup.contentHash;
+  return file.parentId === lookup.parentId;
+};
+
+/**
+ * Drop the chunk lists of a file, which listings leave out
+ */
+export const toFileSummary = (file: FileMetadata): FileSummary => {
+  const { chunkIds: _chunkIds, chunkHashes: _chunkHashes, parentChunkIds: _parentChunkIds, ...summary } = file;
+  return summary;
+};
+
+/**
+ * Count files by processing status
+ */
+export const countStatuses = (statuses: FileMetadata['processingStatus'][]): CatalogPage['statusCounts'] => {
+  const counts: CatalogPage['statusCounts'] = { pending: 0, success: 0, error: 0 };
+  statuses.forEach(status => {
+    counts[status] = (counts[status] || 0) + 1;
+  });
+  return counts;
+};
+
+const matchesQuery = (file: FileMetadata, query: CatalogQuery): boolean => {
+  const date = file[query.dateField];
+  return (!query.status || file.processingStatus === query.status)
+    && (!query.sourceLocation || file.sourceLocation === query.sourceLocation)
+    && (!query.mimeType || file.mimeType === query.mimeType)
+    && (!query.tag || (file.tags || []).includes(query.tag))
+    && (!query.from || (date !== undefined && date >= query.from))
+    && (!query.to || (date !== undefined && date <= query.to));
+};
+
+/**
+ * Compare files by the sort field of a query, with files lacking the field
+ * last and ties broken by ID, as the SQLite store orders them
+ */
+const compareFiles = (query: CatalogQuery) => (a: FileMetadata, b: FileMetadata): number => {
+  const x = a[query.sort];
+  const y = b[query.sort];
+  if (x === undefined || y === undefined) {
+    return x === y ? compareValues(a.id, b.id) : x === undefined ? 1 : -1;
+  }
+  return (query.order === 'desc' ? -1 : 1) * compareValues(x, y) || compareValues(a.id, b.id);
+};
+
+const compareValues = <T extends string | number>(x: T, y: T): number => x < y ? -1 : x > y ? 1 : 0;
+
+// Backups kept of a catalog file, from <file>.backup.1 (newest) to .backup.5
+const BACKUP_COUNT = 5;
+// How long to wait for another process to release the catalog lock
+const LOCK_TIMEOUT_MS = 15000;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Catalog kept as a JSON file, rewritten on every change.
+ *
+ * Changes are made while holding a lock on the file, so processes updating
+ * the catalog at the same time (a scheduled update and one started from the
+ * dashboard) do not overwrite each other's changes. The file is replaced
+ * atomically, and the previous versions are kept as rotating backups; a file
+ * that cannot be read is set aside and restored from the newest good backup.
+ */
+export class JsonCatalogStore implements CatalogStore {
+  private filePath: string;
+  private pending: FileCatalog | null = null; // Catalog being changed by a transaction
+  private releaseLock: (() => void) | null = null;
+
+  /**
+   * Create a store for a catalog file
+   * @param filePath Path to the catalog JSON file
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  load(): FileCatalog {
+    return this.pending ?? this.readCatalog();
+  }
+
+  save(catalog: FileCatalog): void {
+    if (this.pending) {
+      this.pending = catalog;
+    } else {
+      this.withLock(() => this.writeCatalog(catalog));
+    }
+  }
+
+  getFile(id: string): FileMetadata | undefined {
+    return this.load().files[id];
+  }
+
+  findFiles(lookup: CatalogLookup): FileMetadata[] {
+    return Object.values(this.load().files).filter(file => matchesLookup(file, lookup));
+  }
+
+  queryFiles(query: CatalogQuery): CatalogPage {
+    const catalog = this.load();
+    const matching = Object.values(catalog.files).filter(file => matchesQuery(file, query));
+
+    return {
+      lastUpdated: catalog.lastUpdated,
+      total: matching.length,
+      statusCounts: countStatuses(matching.map(file => file.processingStatus)),
+      files: matching
+        .sort(compareFiles(query))
+        .slice(query.offset, query.offset + query.limit)
+        .map(toFileSummary)
+    };
+  }
+
+  putFiles(files: FileMetadata[]): void {
+    this.update(catalog => files.forEach(file => {
+      catalog.files[file.id] = file;
+    }));
+  }
+
+  deleteFiles(ids: string[]): void {
+    this.update(catalog => ids.forEach(id => {
+      delete catalog.files[id];
+    }));
+  }
+
+  getProcessingRuns(fileId: string): ProcessingRun[] {
+    return (this.load().processingRuns || []).filter(run => run.fileId === fileId);
+  }
+
+  putProcessingRun(run: ProcessingRun): void {
+    this.update(catalog => {
+      const runs = catalog.processingRuns || [];
+      const index = runs.findIndex(existing => existing.id === run.id);
+      catalog.processingRuns = index === -1
+        ? [...runs, run]
+        : runs.map(existing => existing.id === run.id ? run : existing);
+    });
+  }
+
+  transaction<T>(callback: () => T): T {
+    if (this.pending) {
+      return callback();
+    }
+
+    return this.withLock(() => {
+      this.pending = this.readCatalog();
+      try {
+        const result = callback();
+        this.writeCatalog(this.pending);
+        return result;
+      } finally {
+        this.pending = null;
+      }
+    });
+  }
+
+  private update(change: (catalog: FileCatalog) => void): void {
+    this.transaction(() => change(this.load()));
+  }
+
+  /**
+   * Run a callback while holding the lock on the catalog file, waiting for
+   * other processes to release it. Calls made while the lock is held run directly.
+   */
+  private withLock<T>(callback: () => T): T {
+    if (this.releaseLock) {
+      return callback();
+    }
+
+    this.releaseLock = acquireLock(this.filePath);
+    try {
+      return callback();
+    } finally {
+      const release = this.releaseLock;
+      this.releaseLock = null;
+      release();
+    }
+  }
+
+  /**
+   * Read the catalog file, creating an empty catalog if none exists
+   */
+  private readCatalog(): FileCatalog {
+    if (!fs.existsSync(this.filePath)) {
+      return { lastUpdated: new Date().toISOString(), files: {} };
+    }
+
+    let parsed: { catalog: FileCatalog; migrated: boolean };
+    try {
+      parsed = parseCatalog(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (error) {
+      console.error('Error loading file catalog:', error);
+      return this.withLock(() => this.recoverCatalog());
+    }
+
+    // Save the migrated catalog
+    if (parsed.migrated) {
+      this.withLock(() => this.writeCatalog(parsed.catalog));
+    }
+    return parsed.catalog;
+  }
+
+  /**
+   * Replace a catalog file that cannot be read with its newest backup that
+   * can. The unreadable file is kept next to it for inspection.
+   */
+  private recoverCatalog(): FileCatalog {
+    // Another process may have recovered the file while this one waited for the lock
+    try {
+      return parseCatalog(fs.readFileSync(this.filePath, 'utf-8')).catalog;
+    } catch {
+      // Still unreadable
+    }
+
+    for (let index = 1; index <= BACKUP_COUNT; index++) {
+      const backupPath = getBackupPath(this.filePath, index);
+      if (!fs.existsSync(backupPath)) continue;
+
+      try {
+        const { catalog } = parseCatalog(fs.readFileSync(backupPath, 'utf-8'));
+        const corruptPath = `${this.filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '')}`;
+        fs.renameSync(this.filePath, corruptPath);
+        writeFileAtomic.sync(this.filePath, JSON.stringify(catalog, null, 2));
+        console.warn(`Recovered file catalog from ${backupPath}; the unreadable catalog was moved to ${corruptPath}`);
+        return catalog;
+      } catch (error) {
+        console.error(`Error recovering file catalog from ${backupPath}:`, error);
+      }
+    }
+
+    // Starting over with an empty catalog would lose every entry on the next save
+    throw new Error(`File catalog ${this.filePath} cannot be read and no backup of it could be restored`);
+  }
+
+  private writeCatalog(catalog: FileCatalog): void {
+    try {
+      // Update the lastUpdated timestamp
+      catalog.lastUpdated = new Date().toISOString();
+
+      if (fs.existsSync(this.filePath)) {
+        rotateBackups(this.filePath, backupPath => fs.copyFileSync(this.filePath, backupPath));
+      }
+      writeFileAtomic.sync(this.filePath, JSON.stringify(catalog, null, 2));
+      console.log('File catalog saved to', this.filePath);
+    } catch (error) {
+      // A change that was not saved must not look like it was
+      console.error('Error saving file catalog:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Make room for a new backup of a catalog file, dropping the oldest, and
+ * write it as the newest
+ * @param filePath Path to the catalog file
+ * @param writeBackup Writes the backup to the path it is given
+ */
+export const rotateBackups = (filePath: string, writeBackup: (backupPath: string) => void): void => {
+  for (let index = BACKUP_COUNT - 1; index >= 1; index--) {
+    const backupPath = getBackupPath(filePath, index);
+    if (fs.existsSync(backupPath)) {
+      fs.renameSync(backupPath, getBackupPath(filePath, index + 1));
+    }
+  }
+  writeBackup(getBackupPath(filePath, 1));
+};
+
+const getBackupPath = (filePath: string, index: number): string => `${filePath}.backup.${index}`;
+
+/**
+ * Lock a catalog file, retrying until LOCK_TIMEOUT_MS while another process holds it
+ * @returns Function releasing the lock
+ */
+const acquireLock = (filePath: string): () => void => {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      // The lock is a directory next to the file, so the file need not exist yet
+      return lockfile.lockSync(filePath, {
+        realpath: false,
+        onCompromised: error => console.error(`Lock on file catalog ${filePath} was lost:`, error)
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ELOCKED' || Date.now() >= deadline) {
+        throw error;
+      }
+      // Catalog access is synchronous, so wait without returning to the event loop
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+};
+
+/**
+ * Parse a catalog file, converting the old array format to the current one
+ * @returns The catalog, and whether it was in the old format
+ */
+const parseCatalog = (catalogData: string): { catalog: FileCatalog; migrated: boolean } => {
+  const parsedData = JSON.parse(catalogData);
+
+  // If the catalog is in the old array format, migrate it
+  if (Array.isArray(parsedData)) {
+    console.log('Migrating file catalog from array to object format');
+    return { catalog: migrateLegacyCatalog(parsedData), migrated: true };
+  }
+
+  if (!parsedData || typeof parsedData.files !== 'object') {
+    throw new Error('File catalog has no files');
+  }
+  return { catalog: parsedData as FileCatalog, migrated: false };
+};
+
+/**
+ * Convert a catalog in the old array format, which listed Google Drive files
+ * by name, type and document count
+ */
+const migrateLegacyCatalog = (entries: { filename: string; type: string; size: number; documentCount?: number }[]): FileCatalog => {
+  const migratedCatalog: FileCatalog = {
+    lastUpdated: new Date().toISOString(),
+    files: {}
+  };
+
+  entries.forEach(oldEntry => {
+    const id = uuidv4();
+    migratedCatalog.files[id] = {
+      id,
+      name: oldEntry.filename,
+      mimeType: getMimeTypeFromExtension(oldEntry.type),
+      size: oldEntry.size,
+      lastModified: new Date().toISOString(),
+      sourceLocation: 'google-drive', // Assuming all existing files are from Google Drive
+      processingStatus: 'success',
+      processedAt: new Date().toISOString(),
+      chunkCount: oldEntry.documentCount || 0,
+      chunkIds: []
+    };
+  });
+
+  return migratedCatalog;
+};
+
+// MIME types for legacy catalog entries that no loader handles
+const LEGACY_MIME_TYPES: Record<string, string> = {
+  'gdoc': 'application/vnd.google-apps.document',
+  'json': 'application/json',
+  'xml': 'application/xml'
+};
+
+/**
+ * Gets MIME type from file extension using the loader registry
+ */
+export const getMimeTypeFromExtension = (extension: string): string => {
+  const normalized = extension.toLowerCase().replace(/^\./, '');
+  return getMimeTypeForExtension(normalized)
+    || LEGACY_MIME_TYPES[normalized]
+    || 'application/octet-stream';
+};
@@ -9,260 +9,398 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { FileCatalog, FileMetadata } from '../types/file-catalog';
+import { CatalogPage, CatalogQuery, FileCatalog, FileMetadata, ProcessingRun } from '../types/file-catalog';
+import { isSupportedFileType } from '../loaders';
+import { isChunkingProfileOutdated } from '../chunking';
+import { CatalogStore, JsonCatalogStore, getMimeTypeFromExtension } from './catalog-store';
+import { SqliteCatalogStore } from './sqlite-catalog-store';
 
-// Path to the file catalog JSON file
+export { getMimeTypeFromExtension };
+
+// Path to the file catalog JSON file, used by the JSON backend and imported into a new database
 const CATALOG_PATH = path.join(process.cwd(), 'file-catalog.json');
 
+// Path to the file catalog database
+const CATALOG_DB_PATH = process.env.FILE_CATALOG_DB_PATH || path.join(process.cwd(), 'file-catalog.db');
+
+let catalogStore: CatalogStore | null = null;
+
 /**
- * Loads the file catalog from disk
- * Creates a new empty catalog if none exists
+ * Gets the store the catalog is kept in: the SQLite database, or
+ * file-catalog.json when FILE_CATALOG_BACKEND is "json" or the database
+ * cannot be opened
  */
-export const loadFileCatalog = (): FileCatalog => {
-  if (!fs.existsSync(CATALOG_PATH)) {
-    return { lastUpdated: new Date().toISOString(), files: {} };
+const getCatalogStore = (): CatalogStore => {
+  if (catalogStore) {
+    return catalogStore;
   }
   
-  try {
-    const catalogData = fs.readFileSync(CATALOG_PATH, 'utf-8');
-    
-    // Handle migration from old array format to new object format
-    const parsedData = JSON.parse(catalogData);
-    
-    // If the catalog is in the old array format, migrate it
-    if (Array.isArray(parsedData)) {
-      console.log('Migrating file catalog from array to object format');
-      const migratedCatalog: FileCatalog = {
-        lastUpdated: new Date().toISOString(),
-        files: {}
-      };
-      
-      parsedData.forEach(oldEntry => {
-        const id = uuidv4();
-        migratedCatalog.files[id] = {
-          id,
-          name: oldEntry.filename,
-          mimeType: getMimeTypeFromExtension(oldEntry.type),
-          size: oldEntry.size,
-          lastModified: new Date().toISOString(),
-          sourceLocation: 'google-drive', // Assuming all existing files are from Google Drive
-          processingStatus: 'success',
-          processedAt: new Date().toISOString(),
-          chunkCount: oldEntry.documentCount || 0,
-          chunkIds: []
-        };
-      });
-      
-      // Save the migrated catalog
-      saveFileCatalog(migratedCatalog);
-      return migratedCatalog;
+  if (process.env.FILE_CATALOG_BACKEND === 'json') {
+    catalogStore = new JsonCatalogStore(CATALOG_PATH);
+  } else {
+    try {
+      catalogStore = new SqliteCatalogStore(CATALOG_DB_PATH, CATALOG_PATH);
+    } catch (error) {
+      console.error(`Error opening file catalog database ${CATALOG_DB_PATH}, using ${CATALOG_PATH}:`, error);
+      catalogStore = new JsonCatalogStore(CATALOG_PATH);
     }
-    
-    return parsedData as FileCatalog;
-  } catch (error) {
-    console.error('Error loading file catalog:', error);
-    return { lastUpdated: new Date().toISOString(), files: {} };
   }
+  return catalogStore;
+};
+
+/**
+ * Loads the whole file catalog
+ * Returns an empty catalog if none exists
+ */
+export const loadFileCatalog = (): FileCatalog => {
+  return getCatalogStore().load();
 };
 
 /**
- * Saves the file catalog to disk
+ * Replaces the files of the catalog
  */
 export const saveFileCatalog = (catalog: FileCatalog): void => {
   try {
-    // Update the lastUpdated timestamp
-    catalog.lastUpdated = new Date().toISOString();
-    
-    fs.writeFileSync(CATALOG_PATH, JSON.stringify(catalog, null, 2));
-    console.log('File catalog saved to', CATALOG_PATH);
+    getCatalogStore().save(catalog);
   } catch (error) {
     console.error('Error saving file catalog:', error);
   }
 };
 
 /**
- * Adds a file to the file catalog
+ * Runs catalog changes together: either all of them are saved, or none if
+ * the callback throws
+ */
+export const runCatalogTransaction = <T>(callback: () => T): T => {
+  return getCatalogStore().transaction(callback);
+};
+
+/**
+ * Lists the files matching filters, one page at a time
+ */
+export const queryFileCatalog = (query: CatalogQuery): CatalogPage => {
+  return getCatalogStore().queryFiles(query);
+};
+
+/**
+ * Gets a file by its ID
+ */
+export const getFileById = (fileId: string): FileMetadata | undefined => {
+  return getCatalogStore().getFile(fileId);
+};
+
+/**
+ * Gets a top-level file (one not extracted from an archive) by name
+ */
+export const getFileByName = (name: string): FileMetadata | undefined => {
+  return getCatalogStore().findFiles({ name })[0];
+};
+
+/**
+ * Gets the files with a Google Drive ID
+ */
+export const getFilesByDriveId = (driveId: string): FileMetadata[] => {
+  return getCatalogStore().findFiles({ driveId });
+};
+
+/**
+ * Gets the files whose content has a hash
+ */
+export const getFilesByContentHash = (contentHash: string): FileMetadata[] => {
+  return getCatalogStore().findFiles({ contentHash });
+};
+
+/**
+ * Adds a file to the file catalog, named by its file name unless another
+ * name is given, such as its path within the knowledge base
  */
 export const addFileToFileCatalog = (
   filePath: string, 
   mimeType: string, 
   size: number, 
   sourceLocation: 'google-drive' | 'manual-upload',
-  driveId?: string
+  driveId?: string,
+  fileName = path.basename(filePath)
 ): FileMetadata => {
-  const catalog = loadFileCatalog();
+  const store = getCatalogStore();
   const fileId = uuidv4();
-  const fileName = path.basename(filePath);
   
-  // First check if file exists by driveId (for Google Drive files)
-  // This handles the case where a file was renamed in Google Drive
-  let existingFile: FileMetadata | undefined;
-  
-  if (driveId && sourceLocation === 'google-drive') {
-    existingFile = Object.values(catalog.files).find(file => 
-      file.driveId === driveId && file.sourceLocation === 'google-drive'
-    );
+  return store.transaction(() => {
+    // First check if file exists by driveId (for Google Drive files)
+    // This handles the case where a file was renamed in Google Drive
+    let existingFile: FileMetadata | undefined;
+    
+    if (driveId && sourceLocation === 'google-drive') {
+      existingFile = store.findFiles({ driveId }).find(file => file.sourceLocation === 'google-drive');
+      
+      if (existingFile && existingFile.name !== fileName) {
+        console.log(`File renamed in Google Drive: ${existingFile.name} -> ${fileName}`);
+      }
+    }
     
-    if (existingFile && existingFile.name !== fileName) {
-      console.log(`File renamed in Google Drive: ${existingFile.name} -> ${fileName}`);
+    // If not found by driveId, check by filename
+    if (!existingFile) {
+      existingFile = store.findFiles({ name: fileName }).find(file => 
+        driveId ? file.driveId === driveId : true
+      );
     }
-  }
-  
-  // If not found by driveId, check by filename
-  if (!existingFile) {
-    existingFile = Object.values(catalog.files).find(file => 
-      file.name === fileName && 
-      (driveId ? file.driveId === driveId : true)
-    );
-  }
+    
+    if (existingFile) {
+      console.log(`File ${fileName} already exists in catalog, updating metadata`);
+      
+      // Update existing file metadata
+      existingFile.name = fileName; // Update name in case it was renamed
+      existingFile.size = size;
+      existingFile.lastModified = new Date().toISOString();
+      existingFile.processingStatus = 'pending';
+      existingFile.driveId = driveId; // Ensure driveId is updated
+      
+      store.putFiles([existingFile], false);
+      return existingFile;
+    }
+    
+    // Create new file metadata
+    const fileMetadata: FileMetadata = {
+      id: fileId,
+      name: fileName,
+      mimeType,
+      size,
+      lastModified: new Date().toISOString(),
+      sourceLocation,
+      driveId,
+      processingStatus: 'pending',
+      chunkCount: 0,
+      chunkIds: []
+    };
+    
+    store.putFiles([fileMetadata]);
+    return fileMetadata;
+  });
+};
+
+/**
+ * Updates file metadata in the catalog
+ */
+export const updateFileMetadata = (fileId: string, updates: Partial<FileMetadata>): FileMetadata | null => {
+  return updateFilesMetadata([{ fileId, updates }])[0];
+};
+
+/**
+ * Updates the metadata of several files in one transaction
+ * @returns The updated files, or null for files not found in the catalog
+ */
+export const updateFilesMetadata = (
+  batch: { fileId: string; updates: Partial<FileMetadata> }[]
+): (FileMetadata | null)[] => {
+  const store = getCatalogStore();
   
-  if (existingFile) {
-    console.log(`File ${fileName} already exists in catalog, updating metadata`);
+  return store.transaction(() => batch.map(({ fileId, updates }) => {
+    const file = store.getFile(fileId);
     
-    // Update existing file metadata
-    existingFile.name = fileName; // Update name in case it was renamed
-    existingFile.size = size;
-    existingFile.lastModified = new Date().toISOString();
-    existingFile.processingStatus = 'pending';
-    existingFile.driveId = driveId; // Ensure driveId is updated
+    if (!file) {
+      console.error(`File with ID ${fileId} not found in catalog`);
+      return null;
+    }
+    
+    const updatedFile: FileMetadata = {
+      ...file,
+      ...updates,
+      lastModified: new Date().toISOString()
+    };
+    
+    // Chunk lists can be long, so they are only rewritten when they change
+    const chunksChanged = 'chunkIds' in updates || 'chunkHashes' in updates || 'parentChunkIds' in updates;
+    store.putFiles([updatedFile], chunksChanged);
+    return updatedFile;
+  }));
+};
+
+/**
+ * Removes a file from the catalog, along with any files extracted from it
+ */
+export const removeFileFromCatalog = (fileId: string): boolean => {
+  const store = getCatalogStore();
+  
+  return store.transaction(() => {
+    if (!store.getFile(fileId)) {
+      console.error(`File with ID ${fileId} not found in catalog`);
+      return false;
+    }
     
-    saveFileCatalog(catalog);
-    return existingFile;
+    const childIds = store.findFiles({ parentId: fileId }).map(child => child.id);
+    store.deleteFiles([...childIds, fileId]);
+    return true;
+  });
+};
+
+/**
+ * Adds a file extracted from an archive to the catalog as a child of the archive
+ */
+export const addChildFileToCatalog = (
+  parentId: string,
+  archivePath: string,
+  mimeType: string,
+  size: number,
+  contentHash: string
+): FileMetadata | null => {
+  const store = getCatalogStore();
+  const parent = store.getFile(parentId);
+  
+  if (!parent) {
+    console.error(`Parent file with ID ${parentId} not found in catalog`);
+    return null;
   }
   
-  // Create new file metadata
   const fileMetadata: FileMetadata = {
-    id: fileId,
-    name: fileName,
+    id: uuidv4(),
+    name: `${parent.name}/${archivePath}`,
     mimeType,
     size,
     lastModified: new Date().toISOString(),
-    sourceLocation,
-    driveId,
+    sourceLocation: parent.sourceLocation,
+    contentHash,
+    parentId,
+    archivePath,
+    tags: parent.tags,        // Tags of the archive apply to the files inside it
     processingStatus: 'pending',
     chunkCount: 0,
     chunkIds: []
   };
   
-  catalog.files[fileId] = fileMetadata;
-  saveFileCatalog(catalog);
+  store.putFiles([fileMetadata]);
   return fileMetadata;
 };
 
 /**
- * Updates file metadata in the catalog
+ * Gets the files extracted from an archive
  */
-export const updateFileMetadata = (fileId: string, updates: Partial<FileMetadata>): FileMetadata | null => {
-  const catalog = loadFileCatalog();
-  
-  if (!catalog.files[fileId]) {
-    console.error(`File with ID ${fileId} not found in catalog`);
-    return null;
-  }
-  
-  catalog.files[fileId] = {
-    ...catalog.files[fileId],
-    ...updates,
-    lastModified: new Date().toISOString()
+export const getChildFiles = (parentId: string): FileMetadata[] => {
+  return getCatalogStore().findFiles({ parentId });
+};
+
+/**
+ * Records the start of a file's processing in its processing history
+ */
+export const startProcessingRun = (
+  fileId: string,
+  details: Pick<ProcessingRun, 'trigger' | 'contentHash' | 'loader' | 'chunkingProfile' | 'embeddingModel'>
+): ProcessingRun => {
+  const run: ProcessingRun = {
+    id: uuidv4(),
+    fileId,
+    ...details,
+    startedAt: new Date().toISOString(),
+    status: 'running'
   };
-  
-  saveFileCatalog(catalog);
-  return catalog.files[fileId];
+  getCatalogStore().putProcessingRun(run);
+  return run;
 };
 
 /**
- * Removes a file from the catalog
+ * Records how a file's processing ended
  */
-export const removeFileFromCatalog = (fileId: string): boolean => {
-  const catalog = loadFileCatalog();
-  
-  if (!catalog.files[fileId]) {
-    console.error(`File with ID ${fileId} not found in catalog`);
-    return false;
-  }
-  
-  delete catalog.files[fileId];
-  saveFileCatalog(catalog);
-  return true;
+export const finishProcessingRun = (
+  run: ProcessingRun,
+  result: Pick<ProcessingRun, 'status' | 'chunkCount' | 'errorMessage'>
+): ProcessingRun => {
+  const finishedAt = new Date();
+  const finishedRun: ProcessingRun = {
+    ...run,
+    ...result,
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - new Date(run.startedAt).getTime()
+  };
+  getCatalogStore().putProcessingRun(finishedRun);
+  return finishedRun;
 };
 
 /**
- * Calculates a hash of the file contents for deduplication
+ * Gets the processing history of a file, oldest run first
  */
-export const calculateFileHash = (filePath: string): string => {
-  try {
-    const fileContent = fs.readFileSync(filePath);
-    const hashSum = crypto.createHash('sha256');
-    hashSum.update(fileContent.toString('binary'));
-    return hashSum.digest('hex');
-  } catch (error) {
-    console.error(`Error calculating hash for ${filePath}:`, error);
-    return '';
+export const getProcessingRuns = (fileId: string): ProcessingRun[] => {
+  return getCatalogStore().getProcessingRuns(fileId);
+};
+
+/**
+ * Calculates a hash of the file contents for deduplication. The file is read
+ * in chunks, so large files are never held in memory
+ */
+export const calculateFileHash = async (filePath: string): Promise<string> => {
+  const hashSum = crypto.createHash('sha256');
+  // Chunks are hashed as binary strings, as whole files used to be, so the
+  // hashes already in the catalog stay valid
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hashSum.update((chunk as Buffer).toString('binary'));
   }
+  return hashSum.digest('hex');
 };
 
 /**
- * Gets MIME type from file extension
+ * Lists the files in a directory and its subfolders by their path relative
+ * to it, with '/' separators. Hidden folders, such as the one archives are
+ * extracted to, are skipped
  */
-export const getMimeTypeFromExtension = (extension: string): string => {
-  const mimeMap: Record<string, string> = {
-    'pdf': 'application/pdf',
-    'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'txt': 'text/plain',
-    'md': 'text/markdown',
-    'gdoc': 'application/vnd.google-apps.document',
-    'html': 'text/html',
-    'htm': 'text/html',
-    'csv': 'text/csv',
-    'json': 'application/json',
-    'xml': 'application/xml'
-  };
-  
-  return mimeMap[extension.toLowerCase()] || 'application/octet-stream';
+export const listKnowledgebaseFiles = (directoryPath: string, subfolder = ''): string[] => {
+  return fs.readdirSync(path.join(directoryPath, subfolder)).flatMap(entry => {
+    const name = subfolder ? `${subfolder}/${entry}` : entry;
+    if (!fs.statSync(path.join(directoryPath, name)).isDirectory()) {
+      return [name];
+    }
+    return entry.startsWith('.') ? [] : listKnowledgebaseFiles(directoryPath, name);
+  });
 };
 
 /**
- * Checks for file changes in a directory and updates the catalog
- * Returns information about which files need processing
+ * Checks for file changes in a directory and its subfolders and updates the catalog
+ * Returns information about which files need processing.
+ * By default only files handled by a registered loader are considered.
  */
-export const checkForFileChanges = (
+export const checkForFileChanges = async (
   directoryPath: string,
-  supportedFileFilter: (filename: string) => boolean
-): {
+  supportedFileFilter: (filename: string) => boolean = filename =>
+    isSupportedFileType(path.join(directoryPath, filename))
+): Promise<{
   filesToProcess: string[];
   filesToSkip: string[];
   deletedFileIds: string[];
-} => {
-  // Load the catalog
-  const catalog = loadFileCatalog();
-  
+}> => {
   // Initialize result sets
   const filesToProcess: string[] = [];
   const filesToSkip: string[] = [];
-  const deletedFileIds: string[] = Object.keys(catalog.files);
   
-  // Get all files in the directory
-  const files = fs.readdirSync(directoryPath)
-    .filter(file => !fs.statSync(path.join(directoryPath, file)).isDirectory())
-    .filter(supportedFileFilter);
+  // Get all files in the directory and its subfolders, named by their path within it,
+  // so profiles can be selected by folder
+  const files = listKnowledgebaseFiles(directoryPath).filter(supportedFileFilter);
   
-  // Check each file for changes
+  // Read the size and content hash of each file before touching the catalog,
+  // so the catalog is not held while files are hashed
+  const fileStates = new Map<string, { size: number; contentHash: string }>();
   for (const fileName of files) {
-    const filePath = path.join(directoryPath, fileName);
-    
     try {
-      // Get file stats
-      const stats = fs.statSync(filePath);
-      
-      // Calculate content hash
-      const contentHash = calculateFileHash(filePath);
-      
-      // Get MIME type from extension
-      const extension = path.extname(fileName).substring(1);
-      const mimeType = getMimeTypeFromExtension(extension);
-      
+      const filePath = path.join(directoryPath, fileName);
+      fileStates.set(fileName, {
+        size: fs.statSync(filePath).size,
+        contentHash: await calculateFileHash(filePath)
+      });
+    } catch (error) {
+      console.error(`Error checking file ${fileName}:`, error);
+      filesToProcess.push(fileName); // Process anyway to be safe
+    }
+  }
+  
+  const store = getCatalogStore();
+  
+  return store.transaction(() => {
+    // Files extracted from archives are tracked through their parent archive
+    const deletedFileIds: string[] = Object.values(store.load().files)
+      .filter(file => !file.parentId)
+      .map(file => file.id);
+    const updates: { fileId: string; updates: Partial<FileMetadata> }[] = [];
+    
+    // Check each file for changes
+    for (const [fileName, { size, contentHash }] of Array.from(fileStates)) {
       // Find if file exists in catalog by name
-      let existingFile = Object.values(catalog.files).find(file => file.name === fileName);
+      const existingFile = getFileByName(fileName);
       
       // If not found by name, it might be a renamed file
       // We'll check for this when processing deletedFileIds later
@@ -274,17 +412,20 @@ export const checkForFileChanges = (
           deletedFileIds.splice(index, 1);
         }
         
-        // Check if file has changed
+        // Check if file has changed, its last processing failed or did not finish,
+        // it was reset to pending, or it was chunked with a profile that has since been changed
+        // (the chunks of an archive belong to the files extracted from it)
+        const childFiles = getChildFiles(existingFile.id);
+        const chunkedFiles = childFiles.length > 0 ? childFiles : [existingFile];
         if (existingFile.contentHash !== contentHash || 
-            existingFile.size !== stats.size || 
-            existingFile.processingStatus === 'error') {
+            existingFile.size !== size || 
+            existingFile.processingStatus !== 'success' ||
+            existingFile.progress ||
+            chunkedFiles.some(isChunkingProfileOutdated)) {
           
-          // Update file metadata
-          updateFileMetadata(existingFile.id, {
-            size: stats.size,
-            contentHash,
-            processingStatus: 'pending',
-            lastModified: new Date().toISOString()
+          updates.push({
+            fileId: existingFile.id,
+            updates: { size, contentHash, processingStatus: 'pending' }
           });
           
           filesToProcess.push(fileName);
@@ -293,61 +434,42 @@ export const checkForFileChanges = (
         }
       } else {
         // New file, add to catalog
+        const extension = path.extname(fileName).substring(1);
         const fileMetadata = addFileToFileCatalog(
-          filePath,
-          mimeType,
-          stats.size,
-          'manual-upload' // Default to manual upload
+          path.join(directoryPath, fileName),
+          getMimeTypeFromExtension(extension),
+          size,
+          'manual-upload', // Default to manual upload
+          undefined,
+          fileName
         );
         
-        // Update content hash
-        updateFileMetadata(fileMetadata.id, {
-          contentHash
-        });
+        updates.push({ fileId: fileMetadata.id, updates: { contentHash } });
         
         filesToProcess.push(fileName);
       }
-    } catch (error) {
-      console.error(`Error checking file ${fileName}:`, error);
-      filesToProcess.push(fileName); // Process anyway to be safe
     }
-  }
-  
-  // Check if any "deleted" files are actually just renamed files
-  // This is a best-effort approach for manually uploaded files
-  // For Google Drive files, the driveId handling in addFileToFileCatalog will take care of renames
-  const potentiallyRenamedFiles = deletedFileIds.filter(id => {
-    const file = catalog.files[id];
-    return file && file.sourceLocation === 'manual-upload' && file.contentHash;
-  });
-  
-  if (potentiallyRenamedFiles.length > 0) {
-    console.log(`Checking ${potentiallyRenamedFiles.length} potentially renamed files`);
     
-    for (const fileId of potentiallyRenamedFiles) {
-      const oldFile = catalog.files[fileId];
+    // Check if any "deleted" files are actually just renamed files
+    // This is a best-effort approach for manually uploaded files
+    // For Google Drive files, the driveId handling in addFileToFileCatalog will take care of renames
+    for (const fileId of [...deletedFileIds]) {
+      const oldFile = store.getFile(fileId);
+      if (!oldFile || oldFile.sourceLocation !== 'manual-upload' || !oldFile.contentHash) {
+        continue;
+      }
       
       // Look for a file with the same content hash but different name
-      const newFileName = files.find(fileName => {
-        const filePath = path.join(directoryPath, fileName);
-        const hash = calculateFileHash(filePath);
-        return hash === oldFile.contentHash;
-      });
+      const newFileName = files.find(fileName => fileStates.get(fileName)?.contentHash === oldFile.contentHash);
       
       if (newFileName) {
         console.log(`Detected renamed file: ${oldFile.name} -> ${newFileName}`);
         
         // Update the file metadata with the new name
-        updateFileMetadata(fileId, {
-          name: newFileName,
-          processingStatus: 'pending'
-        });
+        updates.push({ fileId, updates: { name: newFileName, processingStatus: 'pending' } });
         
         // Remove from deleted files list
-        const index = deletedFileIds.indexOf(fileId);
-        if (index !== -1) {
-          deletedFileIds.splice(index, 1);
-        }
+        deletedFileIds.splice(deletedFileIds.indexOf(fileId), 1);
         
         // Add to files to process
         if (!filesToProcess.includes(newFileName)) {
@@ -355,14 +477,13 @@ export const checkForFileChanges = (
         }
       }
     }
-  }
-  
-  // Save the updated catalog
-  saveFileCatalog(catalog);
-  
-  return {
-    filesToProcess,
-    filesToSkip,
-    deletedFileIds
-  };
-}; 
\ No newline at end of file
+    
+    updateFilesMetadata(updates);
+    
+    return {
+      filesToProcess,
+      filesToSkip,
+      deletedFileIds
+    };
+  });
+};
@@ -0,0 +1,560 @@
+/**
+ * SQLite File Catalog Store
+ *
+ * Keeps the file catalog in a SQLite database, with files, their chunks and
+ * their processing runs in separate tables and indexes for looking files up
+ * by name, Google Drive ID and content hash. The schema is created and
+ * upgraded by the migrations below, which are applied in order when the
+ * database is opened; the database's user_version records how many have
+ * been applied. A new database imports the existing file-catalog.json.
+ *
+ * SQLite's own locking and journal keep concurrent and interrupted writes
+ * safe. An existing database is also backed up each time it is opened,
+ * before any migration, as rotating copies like those of the JSON catalog.
+ */
+
+import * as fs from 'fs';
+import Database from 'better-sqlite3';
+import { CatalogPage, CatalogQuery, FileCatalog, FileMetadata, ProcessingRun } from '../types/file-catalog';
+import { CatalogLookup, CatalogStore, JsonCatalogStore, countStatuses, rotateBackups, toFileSummary } from './catalog-store';
+
+/**
+ * A schema change. Migrations are only ever appended; a database is upgraded
+ * by applying the ones it has not seen yet.
+ */
+interface Migration {
+  description: string;
+  sql: string;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    description: 'Create the files, chunks and processing runs tables',
+    sql: `
+      CREATE TABLE catalog_info (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      CREATE TABLE files (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        last_modified TEXT NOT NULL,
+        source_location TEXT NOT NULL,
+        drive_id TEXT,
+        content_hash TEXT,
+        parent_id TEXT,
+        archive_path TEXT,
+        tags TEXT,                -- JSON array
+        processing_status TEXT NOT NULL,
+        error_message TEXT,
+        error_reason TEXT,
+        warnings TEXT,            -- JSON array
+        processed_at TEXT,
+        progress TEXT,            -- JSON ProcessingProgress
+        chunk_count INTEGER NOT NULL DEFAULT 0,
+        chunking_profile TEXT,    -- JSON AppliedChunkingProfile
+        extra TEXT                -- JSON object of fields the schema has no column for
+      );
+      CREATE INDEX files_name ON files (name);
+      CREATE INDEX files_drive_id ON files (drive_id);
+      CREATE INDEX files_content_hash ON files (content_hash);
+      CREATE INDEX files_parent_id ON files (parent_id);
+
+      CREATE TABLE chunks (
+        file_id TEXT NOT NULL REFERENCES files (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        vector_id TEXT NOT NULL,
+        content_hash TEXT,
+        metadata_hash TEXT,
+        PRIMARY KEY (file_id, position)
+      );
+
+      CREATE TABLE parent_chunks (
+        file_id TEXT NOT NULL REFERENCES files (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        PRIMARY KEY (file_id, position)
+      );
+
+      -- Runs are kept after their file is removed, so they do not reference files
+      CREATE TABLE processing_runs (
+        id TEXT PRIMARY KEY,
+        file_id TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        status TEXT NOT NULL,
+        content_hash TEXT,
+        chunk_count INTEGER,
+        error_message TEXT
+      );
+      CREATE INDEX processing_runs_file_id ON processing_runs (file_id, started_at);
+    `
+  },
+  {
+    description: 'Record the trigger, loader, chunking profile, embedding model and duration of processing runs',
+    sql: `
+      ALTER TABLE processing_runs ADD COLUMN trigger TEXT;
+      ALTER TABLE processing_runs ADD COLUMN loader TEXT;
+      ALTER TABLE processing_runs ADD COLUMN chunking_profile TEXT;
+      ALTER TABLE processing_runs ADD COLUMN embedding_model TEXT;
+      ALTER TABLE processing_runs ADD COLUMN duration_ms INTEGER;
+    `
+  }
+];
+
+interface FileRow {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  last_modified: string;
+  source_location: string;
+  drive_id: string | null;
+  content_hash: string | null;
+  parent_id: string | null;
+  archive_path: string | null;
+  tags: string | null;
+  processing_status: string;
+  error_message: string | null;
+  error_reason: string | null;
+  warnings: string | null;
+  processed_at: string | null;
+  progress: string | null;
+  chunk_count: number;
+  chunking_profile: string | null;
+  extra: string | null;
+}
+
+interface ChunkRow {
+  file_id: string;
+  vector_id: string;
+  content_hash: string | null;
+  metadata_hash: string | null;
+}
+
+interface ParentChunkRow {
+  file_id: string;
+  id: string;
+}
+
+interface ProcessingRunRow {
+  id: string;
+  file_id: string;
+  trigger: string | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  status: string;
+  content_hash: string | null;
+  loader: string | null;
+  chunking_profile: string | null;
+  embedding_model: string | null;
+  chunk_count: number | null;
+  error_message: string | null;
+}
+
+// Columns looked up by each kind of lookup; all are indexed
+const LOOKUP_CONDITIONS = {
+  name: 'name = ? AND parent_id IS NULL',
+  driveId: 'drive_id = ?',
+  contentHash: 'content_hash = ?',
+  parentId: 'parent_id = ?'
+};
+
+// Columns of the fields files can be sorted and filtered by date on
+const QUERY_COLUMNS: Record<CatalogQuery['sort'] | CatalogQuery['dateField'], string> = {
+  name: 'name',
+  size: 'size',
+  lastModified: 'last_modified',
+  processedAt: 'processed_at',
+  chunkCount: 'chunk_count'
+};
+
+export class SqliteCatalogStore implements CatalogStore {
+  private db: Database.Database;
+
+  /**
+   * Open the catalog database, creating and upgrading it as needed
+   * @param databasePath Path to the SQLite database file
+   * @param jsonCatalogPath Path to a JSON catalog to import into a new database
+   */
+  constructor(databasePath: string, jsonCatalogPath: string) {
+    const exists = fs.existsSync(databasePath);
+    this.db = new Database(databasePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+
+    if (exists) {
+      this.backup(databasePath);
+    }
+
+    const isNew = this.migrate() === 0;
+    if (isNew && fs.existsSync(jsonCatalogPath)) {
+      this.importJsonCatalog(jsonCatalogPath);
+    }
+  }
+
+  load(): FileCatalog {
+    const rows = this.db.prepare('SELECT * FROM files').all() as FileRow[];
+    const files: Record<string, FileMetadata> = {};
+    for (const file of this.toFiles(rows)) {
+      files[file.id] = file;
+    }
+    return { lastUpdated: this.getLastUpdated(), files };
+  }
+
+  save(catalog: FileCatalog): void {
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM files').run();
+      this.putFiles(Object.values(catalog.files));
+    });
+  }
+
+  getFile(id: string): FileMetadata | undefined {
+    const row = this.db.prepare('SELECT * FROM files WHERE id = ?').get(id) as FileRow | undefined;
+    return row ? this.toFiles([row])[0] : undefined;
+  }
+
+  findFiles(lookup: CatalogLookup): FileMetadata[] {
+    const [field, value] = Object.entries(lookup)[0] as [keyof typeof LOOKUP_CONDITIONS, string];
+    const rows = this.db.prepare(`SELECT * FROM files WHERE ${LOOKUP_CONDITIONS[field]}`).all(value) as FileRow[];
+    return this.toFiles(rows);
+  }
+
+  queryFiles(query: CatalogQuery): CatalogPage {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const addCondition = (condition: string, value: string | undefined) => {
+      if (value !== undefined) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    };
+
+    const dateColumn = QUERY_COLUMNS[query.dateField];
+    addCondition('processing_status = ?', query.status);
+    addCondition('source_location = ?', query.sourceLocation);
+    addCondition('mime_type = ?', query.mimeType);
+    addCondition('EXISTS (SELECT 1 FROM json_each(files.tags) WHERE json_each.value = ?)', query.tag);
+    addCondition(`${dateColumn} >= ?`, query.from);
+    addCondition(`${dateColumn} <= ?`, query.to);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const counts = this.db
+      .prepare(`SELECT processing_status, COUNT(*) AS count FROM files ${where} GROUP BY processing_status`)
+      .all(...params) as { processing_status: FileMetadata['processingStatus']; count: number }[];
+    const statusCounts = countStatuses([]);
+    counts.forEach(({ processing_status, count }) => {
+      statusCounts[processing_status] = count;
+    });
+
+    // Files lacking the sort field come last; ties are broken by ID so pages do not overlap
+    const sortColumn = QUERY_COLUMNS[query.sort];
+    const rows = this.db.prepare(`
+      SELECT * FROM files ${where}
+      ORDER BY ${sortColumn} IS NULL, ${sortColumn} ${query.order === 'desc' ? 'DESC' : 'ASC'}, id
+      LIMIT ? OFFSET ?
+    `).all(...params, query.limit, query.offset) as FileRow[];
+
+    return {
+      lastUpdated: this.getLastUpdated(),
+      total: counts.reduce((total, { count }) => total + count, 0),
+      statusCounts,
+      // Listings leave out the chunk lists, so the chunk tables are not read
+      files: rows.map(row => toFileSummary(toFileMetadata(row, [], [])))
+    };
+  }
+
+  putFiles(files: FileMetadata[], withChunks = true): void {
+    const upsertFile = this.db.prepare(`
+      INSERT INTO files (
+        id, name, mime_type, size, last_modified, source_location, drive_id, content_hash,
+        parent_id, archive_path, tags, processing_status, error_message, error_reason,
+        warnings, processed_at, progress, chunk_count, chunking_profile, extra
+      ) VALUES (
+        @id, @name, @mime_type, @size, @last_modified, @source_location, @drive_id, @content_hash,
+        @parent_id, @archive_path, @tags, @processing_status, @error_message, @error_reason,
+        @warnings, @processed_at, @progress, @chunk_count, @chunking_profile, @extra
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name, mime_type = excluded.mime_type, size = excluded.size,
+        last_modified = excluded.last_modified, source_location = excluded.source_location,
+        drive_id = excluded.drive_id, content_hash = excluded.content_hash,
+        parent_id = excluded.parent_id, archive_path = excluded.archive_path, tags = excluded.tags,
+        processing_status = excluded.processing_status, error_message = excluded.error_message,
+        error_reason = excluded.error_reason, warnings = excluded.warnings,
+        processed_at = excluded.processed_at, progress = excluded.progress,
+        chunk_count = excluded.chunk_count, chunking_profile = excluded.chunking_profile,
+        extra = excluded.extra
+    `);
+    const deleteChunks = this.db.prepare('DELETE FROM chunks WHERE file_id = ?');
+    const insertChunk = this.db.prepare(
+      'INSERT INTO chunks (file_id, position, vector_id, content_hash, metadata_hash) VALUES (?, ?, ?, ?, ?)'
+    );
+    const deleteParentChunks = this.db.prepare('DELETE FROM parent_chunks WHERE file_id = ?');
+    const insertParentChunk = this.db.prepare('INSERT INTO parent_chunks (file_id, position, id) VALUES (?, ?, ?)');
+
+    this.transaction(() => {
+      for (const file of files) {
+        upsertFile.run(toFileRow(file));
+        if (!withChunks) continue;
+
+        deleteChunks.run(file.id);
+        (file.chunkIds || []).forEach((vectorId, position) => {
+          const hash = file.chunkHashes?.[position];
+          insertChunk.run(file.id, position, vectorId, hash?.content ?? null, hash?.metadata ?? null);
+        });
+
+        deleteParentChunks.run(file.id);
+        (file.parentChunkIds || []).forEach((id, position) => insertParentChunk.run(file.id, position, id));
+      }
+      this.touch();
+    });
+  }
+
+  deleteFiles(ids: string[]): void {
+    const deleteFile = this.db.prepare('DELETE FROM files WHERE id = ?');
+    this.transaction(() => {
+      ids.forEach(id => deleteFile.run(id));
+      this.touch();
+    });
+  }
+
+  getProcessingRuns(fileId: string): ProcessingRun[] {
+    const rows = this.db
+      .prepare('SELECT * FROM processing_runs WHERE file_id = ? ORDER BY started_at')
+      .all(fileId) as ProcessingRunRow[];
+    return rows.map(toProcessingRun);
+  }
+
+  putProcessingRun(run: ProcessingRun): void {
+    this.db.prepare(`
+      INSERT INTO processing_runs (
+        id, file_id, trigger, started_at, finished_at, duration_ms, status, content_hash,
+        loader, chunking_profile, embedding_model, chunk_count, error_message
+      ) VALUES (
+        @id, @file_id, @trigger, @started_at, @finished_at, @duration_ms, @status, @content_hash,
+        @loader, @chunking_profile, @embedding_model, @chunk_count, @error_message
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        finished_at = excluded.finished_at, duration_ms = excluded.duration_ms,
+        status = excluded.status, chunk_count = excluded.chunk_count,
+        error_message = excluded.error_message
+    `).run({
+      id: run.id,
+      file_id: run.fileId,
+      trigger: run.trigger ?? null,
+      started_at: run.startedAt,
+      finished_at: run.finishedAt ?? null,
+      duration_ms: run.durationMs ?? null,
+      status: run.status,
+      content_hash: run.contentHash ?? null,
+      loader: run.loader ?? null,
+      chunking_profile: run.chunkingProfile ?? null,
+      embedding_model: run.embeddingModel ?? null,
+      chunk_count: run.chunkCount ?? null,
+      error_message: run.errorMessage ?? null
+    });
+  }
+
+  transaction<T>(callback: () => T): T {
+    // Take the write lock at the start, since callers read before they write:
+    // a deferred transaction fails with SQLITE_BUSY_SNAPSHOT instead of waiting
+    // when another process commits in between. Nested transactions become
+    // savepoints of the outer one
+    return this.db.transaction(callback).immediate();
+  }
+
+  /**
+   * Copy the database to the newest of its rotating backups. VACUUM INTO
+   * writes a consistent copy even while other processes use the database.
+   */
+  private backup(databasePath: string): void {
+    try {
+      rotateBackups(databasePath, backupPath => {
+        // VACUUM INTO refuses to overwrite a file
+        fs.rmSync(backupPath, { force: true });
+        this.db.prepare('VACUUM INTO ?').run(backupPath);
+      });
+      console.log(`Backed up file catalog database ${databasePath}`);
+    } catch (error) {
+      // Opening the database must not fail, or the app would fall back to the JSON catalog
+      console.error(`Error backing up file catalog database ${databasePath}:`, error);
+    }
+  }
+
+  /**
+   * Apply the migrations the database has not seen yet, each in a transaction
+   * @returns The schema version the database had before
+   */
+  private migrate(): number {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+
+    MIGRATIONS.slice(version).forEach((migration, index) => {
+      const target = version + index + 1;
+      this.transaction(() => {
+        this.db.exec(migration.sql);
+        this.db.pragma(`user_version = ${target}`);
+      });
+      console.log(`Applied file catalog migration ${target}: ${migration.description}`);
+    });
+
+    return version;
+  }
+
+  /**
+   * Copy a JSON catalog, in either of its formats, into the database. The
+   * JSON file is left in place but no longer updated.
+   */
+  private importJsonCatalog(jsonCatalogPath: string): void {
+    const catalog = new JsonCatalogStore(jsonCatalogPath).load();
+    const files = Object.values(catalog.files);
+
+    this.transaction(() => {
+      this.putFiles(files);
+      (catalog.processingRuns || []).forEach(run => this.putProcessingRun(run));
+    });
+    console.log(`Imported ${files.length} files from ${jsonCatalogPath} into the file catalog database`);
+  }
+
+  private getLastUpdated(): string {
+    const row = this.db.prepare("SELECT value FROM catalog_info WHERE key = 'lastUpdated'").get() as
+      { value: string } | undefined;
+    return row?.value ?? new Date().toISOString();
+  }
+
+  private touch(): void {
+    this.db.prepare(
+      "INSERT INTO catalog_info (key, value) VALUES ('lastUpdated', ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value"
+    ).run(new Date().toISOString());
+  }
+
+  /**
+   * Turn file rows into file metadata, reading the chunks of all the files at once
+   */
+  private toFiles(rows: FileRow[]): FileMetadata[] {
+    if (rows.length === 0) return [];
+
+    // SQLite limits the number of parameters of a statement, so large sets are read whole
+    const ids = rows.map(row => row.id);
+    const filter = ids.length <= 500 ? `WHERE file_id IN (${ids.map(() => '?').join(', ')})` : '';
+    const params = filter ? ids : [];
+
+    const chunks = groupByFile(this.db
+      .prepare(`SELECT file_id, vector_id, content_hash, metadata_hash FROM chunks ${filter} ORDER BY file_id, position`)
+      .all(...params) as ChunkRow[]);
+    const parentChunks = groupByFile(this.db
+      .prepare(`SELECT file_id, id FROM parent_chunks ${filter} ORDER BY file_id, position`)
+      .all(...params) as ParentChunkRow[]);
+
+    return rows.map(row => toFileMetadata(row, chunks.get(row.id) || [], parentChunks.get(row.id) || []));
+  }
+}
+
+const groupByFile = <T extends { file_id: string }>(rows: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.file_id);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(row.file_id, [row]);
+    }
+  }
+  return groups;
+};
+
+const toJson = (value: unknown): string | null => value === undefined ? null : JSON.stringify(value);
+
+const toFileRow = (file: FileMetadata): FileRow => {
+  const {
+    id, name, mimeType, size, lastModified, sourceLocation, driveId, contentHash, parentId,
+    archivePath, tags, processingStatus, errorMessage, errorReason, warnings, processedAt,
+    progress, chunkCount, chunkingProfile,
+    // Stored in the chunk tables
+    chunkIds: _chunkIds, chunkHashes: _chunkHashes, parentChunkIds: _parentChunkIds,
+    ...extra
+  } = file;
+
+  return {
+    id,
+    name,
+    mime_type: mimeType,
+    size,
+    last_modified: lastModified,
+    source_location: sourceLocation,
+    drive_id: driveId ?? null,
+    content_hash: contentHash ?? null,
+    parent_id: parentId ?? null,
+    archive_path: archivePath ?? null,
+    tags: toJson(tags),
+    processing_status: processingStatus,
+    error_message: errorMessage ?? null,
+    error_reason: errorReason ?? null,
+    warnings: toJson(warnings),
+    processed_at: processedAt ?? null,
+    progress: toJson(progress),
+    chunk_count: chunkCount ?? 0,
+    chunking_profile: toJson(chunkingProfile),
+    extra: Object.keys(extra).length > 0 ? JSON.stringify(extra) : null
+  };
+};
+
+const toFileMetadata = (row: FileRow, chunks: ChunkRow[], parentChunks: ParentChunkRow[]): FileMetadata => {
+  const file: FileMetadata = {
+    ...(row.extra ? JSON.parse(row.extra) : {}),
+    id: row.id,
+    name: row.name,
+    mimeType: row.mime_type,
+    size: row.size,
+    lastModified: row.last_modified,
+    sourceLocation: row.source_location as FileMetadata['sourceLocation'],
+    processingStatus: row.processing_status as FileMetadata['processingStatus'],
+    chunkCount: row.chunk_count,
+    chunkIds: chunks.map(chunk => chunk.vector_id)
+  };
+
+  // Optional fields are left out when unset, as they are in the JSON catalog
+  const optional: Partial<FileMetadata> = {
+    driveId: row.drive_id ?? undefined,
+    contentHash: row.content_hash ?? undefined,
+    parentId: row.parent_id ?? undefined,
+    archivePath: row.archive_path ?? undefined,
+    tags: row.tags ? JSON.parse(row.tags) : undefined,
+    errorMessage: row.error_message ?? undefined,
+    errorReason: (row.error_reason ?? undefined) as FileMetadata['errorReason'],
+    warnings: row.warnings ? JSON.parse(row.warnings) : undefined,
+    processedAt: row.processed_at ?? undefined,
+    progress: row.progress ? JSON.parse(row.progress) : undefined,
+    chunkingProfile: row.chunking_profile ? JSON.parse(row.chunking_profile) : undefined
+  };
+  if (chunks.length > 0 && chunks.every(chunk => chunk.content_hash !== null)) {
+    optional.chunkHashes = chunks.map(chunk => ({ content: chunk.content_hash!, metadata: chunk.metadata_hash! }));
+  }
+  if (parentChunks.length > 0) {
+    optional.parentChunkIds = parentChunks.map(parent => parent.id);
+  }
+
+  return Object.assign(file, Object.fromEntries(
+    Object.entries(optional).filter(([, value]) => value !== undefined)
+  ));
+};
+
+const toProcessingRun = (row: ProcessingRunRow): ProcessingRun => ({
+  id: row.id,
+  fileId: row.file_id,
+  trigger: (row.trigger ?? undefined) as ProcessingRun['trigger'],
+  startedAt: row.started_at,
+  finishedAt: row.finished_at ?? undefined,
+  durationMs: row.duration_ms ?? undefined,
+  status: row.status as ProcessingRun['status'],
+  contentHash: row.content_hash ?? undefined,
+  loader: row.loader ?? undefined,
+  chunkingProfile: row.chunking_profile ?? undefined,
+  embeddingModel: row.embedding_model ?? undefined,
+  chunkCount: row.chunk_count ?? undefined,
+  errorMessage: row.error_message ?? undefined
+});